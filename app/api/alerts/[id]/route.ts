@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { deleteAlertRule, updateAlertRule } from "@/lib/alerts";
+import { alertRuleUpdateSchema, describeIssues } from "@/lib/contracts";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const parsed = alertRuleUpdateSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid alert rule update.", details: describeIssues(parsed.error) },
+      { status: 400 }
+    );
+  }
+  const rule = await updateAlertRule(id, parsed.data);
+  if (!rule) {
+    return NextResponse.json({ error: "Alert rule not found." }, { status: 404 });
+  }
+  return NextResponse.json({ rule });
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!(await deleteAlertRule(id))) {
+    return NextResponse.json({ error: "Alert rule not found." }, { status: 404 });
+  }
+  return NextResponse.json({ deleted: id });
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { listReceivedWebhooks, recordReceivedWebhook } from "@/lib/alerts";
+import { SIGNATURE_HEADER, verifySignature } from "@/lib/webhooks";
+
+// Local receiver for checking alert delivery end to end. Point
+// ALERT_WEBHOOK_URL at this route; it verifies the signature with
+// ALERT_WEBHOOK_SECRET and keeps the last few payloads.
+export async function POST(request: Request) {
+  const body = await request.text();
+  const secret = process.env.ALERT_WEBHOOK_SECRET;
+  const verified = secret
+    ? verifySignature(body, request.headers.get(SIGNATURE_HEADER), secret)
+    : false;
+  if (secret && !verified) {
+    return NextResponse.json({ error: "Invalid webhook signature." }, { status: 401 });
+  }
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return NextResponse.json({ error: "Webhook body must be JSON." }, { status: 400 });
+  }
+  await recordReceivedWebhook({ receivedAt: new Date().toISOString(), verified, payload });
+  return NextResponse.json({ received: true, verified });
+}
+
+export async function GET() {
+  return NextResponse.json({ received: await listReceivedWebhooks() });
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { createAlertRule, listAlertDeliveries, listAlertRules } from "@/lib/alerts";
+import { alertRuleInputSchema, describeIssues } from "@/lib/contracts";
+
+export async function GET() {
+  const [rules, deliveries] = await Promise.all([listAlertRules(), listAlertDeliveries()]);
+  return NextResponse.json({
+    rules,
+    deliveries,
+    webhookConfigured: Boolean(process.env.ALERT_WEBHOOK_URL),
+    signed: Boolean(process.env.ALERT_WEBHOOK_SECRET),
+  });
+}
+
+export async function POST(request: Request) {
+  const parsed = alertRuleInputSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid alert rule.", details: describeIssues(parsed.error) },
+      { status: 400 }
+    );
+  }
+  const rule = await createAlertRule(parsed.data);
+  return NextResponse.json({ rule }, { status: 201 });
+}
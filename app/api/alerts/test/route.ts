@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { sendTestAlert } from "@/lib/alerts";
+
+export async function POST() {
+  const delivery = await sendTestAlert();
+  return NextResponse.json({ delivery }, { status: delivery.ok ? 200 : 502 });
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { renameCluster } from "@/lib/cluster-registry";
+import { clusterUpdateSchema, describeIssues } from "@/lib/contracts";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const parsed = clusterUpdateSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid cluster update.", details: describeIssues(parsed.error) },
+      { status: 400 }
+    );
+  }
+  const cluster = await renameCluster(id, parsed.data.label);
+  if (!cluster) {
+    return NextResponse.json({ error: "Cluster not found." }, { status: 404 });
+  }
+  return NextResponse.json({ cluster });
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { ClusterRegistryError, splitCluster } from "@/lib/cluster-registry";
+import { clusterSplitSchema, describeIssues } from "@/lib/contracts";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const parsed = clusterSplitSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid cluster split.", details: describeIssues(parsed.error) },
+      { status: 400 }
+    );
+  }
+  try {
+    const cluster = await splitCluster(id, parsed.data.aliases, parsed.data.label);
+    if (!cluster) {
+      return NextResponse.json({ error: "Cluster not found." }, { status: 404 });
+    }
+    return NextResponse.json({ cluster }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ClusterRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { ClusterRegistryError, mergeClusters } from "@/lib/cluster-registry";
+import { clusterMergeSchema, describeIssues } from "@/lib/contracts";
+
+export async function POST(request: Request) {
+  const parsed = clusterMergeSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid cluster merge.", details: describeIssues(parsed.error) },
+      { status: 400 }
+    );
+  }
+  try {
+    const cluster = await mergeClusters(parsed.data.sourceId, parsed.data.targetId);
+    if (!cluster) {
+      return NextResponse.json({ error: "Cluster not found." }, { status: 404 });
+    }
+    return NextResponse.json({ cluster });
+  } catch (error) {
+    if (error instanceof ClusterRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
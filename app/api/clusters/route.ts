@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { listRegisteredClusters } from "@/lib/cluster-registry";
+import { describeIssues, moodQuerySchema } from "@/lib/contracts";
+
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const parsed = moodQuerySchema.safeParse(Object.fromEntries(params));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid cluster query.", details: describeIssues(parsed.error) },
+      { status: 400 }
+    );
+  }
+  return NextResponse.json({ clusters: await listRegisteredClusters(parsed.data) });
+}
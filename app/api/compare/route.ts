@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { compareMoodResults, runComparison } from "@/lib/compare";
+import { compareRequestSchema, describeIssues } from "@/lib/contracts";
+
+export async function POST(request: Request) {
+  const parsed = compareRequestSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid comparison request.", details: describeIssues(parsed.error) },
+      { status: 400 }
+    );
+  }
+  const { queries, refresh, workspace } = parsed.data;
+  const entries = await runComparison(queries, { refresh, workspace });
+  if (entries.every((entry) => !entry.result)) {
+    return NextResponse.json(
+      { error: "Every comparison query failed.", entries },
+      { status: 502 }
+    );
+  }
+  return NextResponse.json({
+    entries,
+    comparison: compareMoodResults(entries.map((entry) => entry.result)),
+  });
+}
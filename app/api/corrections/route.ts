@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { listCorrections } from "@/lib/corrections";
+import { renderCsv } from "@/lib/report";
+
+// Dataset of every human override, for measuring model accuracy over time.
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const corrections = await listCorrections(params.get("runId") ?? undefined);
+  if (params.get("format") !== "csv") {
+    return NextResponse.json({ corrections });
+  }
+  const body = renderCsv(
+    ["corrected_at", "author", "run_id", "run_kind", "target", "index", "field", "model_value", "corrected_value"],
+    corrections.map((correction) => ({
+      corrected_at: correction.createdAt,
+      author: correction.author,
+      run_id: correction.runId,
+      run_kind: correction.runKind,
+      target: correction.target,
+      index: correction.index,
+      field: correction.field,
+      model_value: correction.original ?? "",
+      corrected_value: correction.corrected,
+    }))
+  );
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": 'attachment; filename="corrections.csv"',
+    },
+  });
+}
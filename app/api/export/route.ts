@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import type { z } from "zod";
+import {
+  analyzePayloadSchema,
+  describeIssues,
+  exportRequestSchema,
+  moodOutputSchemas,
+  moodQuerySchema,
+  parseStageData,
+  stageKeySchema,
+  type StageData,
+} from "@/lib/contracts";
+import { getCorrectedRun } from "@/lib/corrections";
+import { exportRun } from "@/lib/export";
+import type { MoodResult, RunRecord } from "@/lib/models";
+import { defaultRunName } from "@/lib/runs";
+
+type UnsavedRun = NonNullable<z.output<typeof exportRequestSchema>["run"]>;
+
+function toRunRecord(run: UnsavedRun): RunRecord | null {
+  const now = new Date().toISOString();
+  const base = { id: "unsaved", createdAt: now, updatedAt: now, timings: [], errors: [] };
+  if (run.kind === "analyze") {
+    const inputs = analyzePayloadSchema.safeParse(run.inputs);
+    if (!inputs.success) return null;
+    const outputs: Partial<StageData> = {};
+    stageKeySchema.options.forEach((stage) => {
+      const parsed = parseStageData(stage, run.outputs[stage]);
+      if (parsed.success) Object.assign(outputs, { [stage]: parsed.data });
+    });
+    const record = { ...base, kind: "analyze" as const, inputs: inputs.data, outputs };
+    return { ...record, name: run.name?.trim() || defaultRunName(record) };
+  }
+  const inputs = moodQuerySchema.safeParse(run.inputs);
+  if (!inputs.success) return null;
+  const outputs: Partial<MoodResult> = {};
+  (Object.keys(moodOutputSchemas) as (keyof typeof moodOutputSchemas)[]).forEach((field) => {
+    const parsed = moodOutputSchemas[field].safeParse(run.outputs[field]);
+    if (parsed.success) Object.assign(outputs, { [field]: parsed.data });
+  });
+  const record = { ...base, kind: "mood" as const, inputs: inputs.data, outputs };
+  return { ...record, name: run.name?.trim() || defaultRunName(record) };
+}
+
+export async function POST(request: Request) {
+  const parsed = exportRequestSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid export request.", details: describeIssues(parsed.error) },
+      { status: 400 }
+    );
+  }
+  const { format, runId, run: unsaved } = parsed.data;
+
+  let run: RunRecord | null = null;
+  if (runId) {
+    const saved = await getCorrectedRun(runId);
+    if (!saved) {
+      return NextResponse.json({ error: "Run not found." }, { status: 404 });
+    }
+    run = saved.run;
+  } else if (unsaved) {
+    run = toRunRecord(unsaved);
+  }
+  if (!run) {
+    return NextResponse.json(
+      { error: "Provide a saved runId or a run with its inputs." },
+      { status: 400 }
+    );
+  }
+
+  const file = exportRun(run, format);
+  return new Response(file.body, {
+    headers: {
+      "Content-Type": file.contentType,
+      "Content-Disposition": `attachment; filename="${file.filename}"`,
+    },
+  });
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { correctionInputSchema, describeIssues } from "@/lib/contracts";
+import { CorrectionError, getCorrectedRun, recordCorrection } from "@/lib/corrections";
+import { getRun } from "@/lib/runs";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const parsed = correctionInputSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid correction.", details: describeIssues(parsed.error) },
+      { status: 400 }
+    );
+  }
+  const run = await getRun(id);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found." }, { status: 404 });
+  }
+  try {
+    await recordCorrection(run, parsed.data);
+  } catch (error) {
+    if (error instanceof CorrectionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+  return NextResponse.json(await getCorrectedRun(id), { status: 201 });
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getCorrectedRun } from "@/lib/corrections";
+import { deleteRun, renameRun } from "@/lib/runs";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const saved = await getCorrectedRun(id);
+  if (!saved) {
+    return NextResponse.json({ error: "Run not found." }, { status: 404 });
+  }
+  return NextResponse.json(saved);
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const body = (await request.json()) as { name?: string };
+  const name = body?.name?.trim();
+  if (!name) {
+    return NextResponse.json({ error: "Missing run name." }, { status: 400 });
+  }
+  const run = await renameRun(id, name);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found." }, { status: 404 });
+  }
+  return NextResponse.json({ run });
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!(await deleteRun(id))) {
+    return NextResponse.json({ error: "Run not found." }, { status: 404 });
+  }
+  return NextResponse.json({ deleted: id });
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { listRuns, saveRun } from "@/lib/runs";
+import type { MoodRun } from "@/lib/models";
+
+type CreateRunPayload = Pick<MoodRun, "kind" | "inputs" | "outputs" | "timings" | "errors"> & {
+  name?: string;
+};
+
+export async function GET() {
+  return NextResponse.json({ runs: await listRuns() });
+}
+
+// Analyze runs are recorded by the streaming route itself; the mood radar is
+// chained on the client, so it posts its finished run here.
+export async function POST(request: Request) {
+  const body = (await request.json()) as CreateRunPayload;
+  if (body?.kind !== "mood" || !body.inputs?.topic || !body.inputs?.region) {
+    return NextResponse.json(
+      { error: "Missing mood run kind, topic, or region." },
+      { status: 400 }
+    );
+  }
+
+  const run = await saveRun({
+    kind: "mood",
+    name: body.name,
+    inputs: body.inputs,
+    outputs: body.outputs ?? {},
+    timings: body.timings ?? [],
+    errors: body.errors ?? [],
+  });
+  return NextResponse.json({ run }, { status: 201 });
+}
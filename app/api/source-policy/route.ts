@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import type { z } from "zod";
+import {
+  DEFAULT_WORKSPACE,
+  describeIssues,
+  sourcePolicySchema,
+  workspaceSchema,
+} from "@/lib/contracts";
+import { DEFAULT_SOURCE_POLICY, getSourcePolicy, saveSourcePolicy } from "@/lib/source-policy";
+
+function parseWorkspace(request: Request) {
+  const value = new URL(request.url).searchParams.get("workspace") ?? undefined;
+  return workspaceSchema.default(DEFAULT_WORKSPACE).safeParse(value);
+}
+
+function invalidWorkspace(error: z.ZodError) {
+  return NextResponse.json(
+    { error: "Invalid workspace.", details: describeIssues(error) },
+    { status: 400 }
+  );
+}
+
+export async function GET(request: Request) {
+  const workspace = parseWorkspace(request);
+  if (!workspace.success) return invalidWorkspace(workspace.error);
+  return NextResponse.json({
+    workspace: workspace.data,
+    policy: await getSourcePolicy(workspace.data),
+    defaults: DEFAULT_SOURCE_POLICY,
+  });
+}
+
+export async function PUT(request: Request) {
+  const workspace = parseWorkspace(request);
+  if (!workspace.success) return invalidWorkspace(workspace.error);
+  const parsed = sourcePolicySchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid source policy.", details: describeIssues(parsed.error) },
+      { status: 400 }
+    );
+  }
+  const policy = await saveSourcePolicy(parsed.data, workspace.data);
+  return NextResponse.json({ workspace: workspace.data, policy });
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { getSnapshot } from "@/lib/snapshots";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const snapshot = await getSnapshot(id);
+  if (!snapshot) {
+    return NextResponse.json({ error: "Snapshot not found." }, { status: 404 });
+  }
+  const { createdAt, items, snippets } = snapshot;
+  return NextResponse.json({ snapshot: { id, createdAt, items, snippets } });
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { loadClusterResolver } from "@/lib/cluster-registry";
+import { describeIssues, moodQuerySchema } from "@/lib/contracts";
+import { listSnapshots } from "@/lib/snapshots";
+import { buildTimeline } from "@/lib/timeline";
+
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const parsed = moodQuerySchema.safeParse(Object.fromEntries(params));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid timeline query.", details: describeIssues(parsed.error) },
+      { status: 400 }
+    );
+  }
+  const [snapshots, canonical] = await Promise.all([
+    listSnapshots(parsed.data),
+    loadClusterResolver(parsed.data),
+  ]);
+  const points = buildTimeline(
+    snapshots.map((snapshot) => ({ ...snapshot, clusters: canonical(snapshot.clusters) }))
+  );
+  return NextResponse.json({ points });
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { describeIssues, watchlistUpdateSchema } from "@/lib/contracts";
+import { CronError } from "@/lib/cron";
+import { deleteTrendPoints, listTrendPoints } from "@/lib/trends";
+import { deleteWatchlist, getWatchlist, updateWatchlist } from "@/lib/watchlists";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const watchlist = await getWatchlist(id);
+  if (!watchlist) {
+    return NextResponse.json({ error: "Watchlist not found." }, { status: 404 });
+  }
+  return NextResponse.json({ watchlist, series: await listTrendPoints(id) });
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const parsed = watchlistUpdateSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid watchlist update.", details: describeIssues(parsed.error) },
+      { status: 400 }
+    );
+  }
+  try {
+    const watchlist = await updateWatchlist(id, parsed.data);
+    if (!watchlist) {
+      return NextResponse.json({ error: "Watchlist not found." }, { status: 404 });
+    }
+    return NextResponse.json({ watchlist });
+  } catch (error) {
+    if (error instanceof CronError) {
+      return NextResponse.json({ error: `Invalid schedule: ${error.message}` }, { status: 400 });
+    }
+    throw error;
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!(await deleteWatchlist(id))) {
+    return NextResponse.json({ error: "Watchlist not found." }, { status: 404 });
+  }
+  await deleteTrendPoints(id);
+  return NextResponse.json({ deleted: id });
+}
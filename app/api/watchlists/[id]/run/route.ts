@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { runWatchlist } from "@/lib/scheduler";
+import { getWatchlist } from "@/lib/watchlists";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function POST(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const watchlist = await getWatchlist(id);
+  if (!watchlist) {
+    return NextResponse.json({ error: "Watchlist not found." }, { status: 404 });
+  }
+  const result = await runWatchlist(watchlist);
+  if (result.skipped) {
+    return NextResponse.json({ error: "Watchlist is already running." }, { status: 409 });
+  }
+  return NextResponse.json({ watchlist: result.watchlist, point: result.point });
+}
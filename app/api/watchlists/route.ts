@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { describeIssues, watchlistInputSchema } from "@/lib/contracts";
+import { CronError } from "@/lib/cron";
+import { createWatchlist, listWatchlists } from "@/lib/watchlists";
+
+export async function GET() {
+  return NextResponse.json({ watchlists: await listWatchlists() });
+}
+
+export async function POST(request: Request) {
+  const parsed = watchlistInputSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid watchlist.", details: describeIssues(parsed.error) },
+      { status: 400 }
+    );
+  }
+  try {
+    const watchlist = await createWatchlist(parsed.data);
+    return NextResponse.json({ watchlist }, { status: 201 });
+  } catch (error) {
+    if (error instanceof CronError) {
+      return NextResponse.json({ error: `Invalid schedule: ${error.message}` }, { status: 400 });
+    }
+    throw error;
+  }
+}
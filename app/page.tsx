@@ -10,11 +10,18 @@ import {
 import {
   Activity,
   ArrowUpRight,
+  BellRing,
   Bot,
+  CalendarClock,
   CheckCircle2,
+  GitCompareArrows,
   Globe2,
   Lightbulb,
+  History,
   LineChart,
+  Radar,
+  RotateCcw,
+  ShieldCheck,
   Sparkles,
   Star,
   Wand2,
@@ -24,67 +31,58 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alerts } from "@/components/alerts";
+import { Comparison } from "@/components/comparison";
+import { SourceMetricsCard } from "@/components/source-metrics";
+import { SourcePolicySettings, SourcePolicySummary } from "@/components/source-policy";
+import { ExportMenu } from "@/components/export-menu";
 import { FloatingParticles } from "@/components/floating-particles";
+import { MoodRadar } from "@/components/mood-radar";
+import { ReviewerInput, useReviewer } from "@/components/reviewer-input";
+import { RunHistory } from "@/components/run-history";
+import { ScoreCorrection } from "@/components/score-correction";
+import { Watchlists } from "@/components/watchlists";
+import { useWorkspace } from "@/components/workspace-input";
+import {
+  DEFAULT_WORKSPACE,
+  parseStageData,
+  pipelineSummarySchema,
+  stageEventSchema,
+  type DateWindowReport,
+  type DedupReport,
+  type Opportunity,
+  type OpportunityGap,
+  type OpportunityScore,
+  type PipelineSummary,
+  type Playbook,
+  type Signal,
+  type SourceMetrics,
+  type SourcePolicyReport,
+  type StageData,
+  type StageEvent,
+  type StageKey,
+  type Suggestion,
+} from "@/lib/contracts";
+import type { AnalyzeRun, Correction, MoodRun, RunRecord } from "@/lib/models";
+import { readError } from "@/lib/http";
+import { readNdjson } from "@/lib/ndjson";
 import { cn } from "@/lib/utils";
 import { fadeInUp, glowPulse, hoverSpring, softBlurReveal, staggerChildren } from "@/lib/motion";
 
-type StageKey = "A" | "B" | "C" | "D" | "E";
-
 type StageStatus = "idle" | "running" | "complete" | "error";
 
-type StageEvent = {
-  stage: StageKey;
-  status: "start" | "progress" | "complete" | "error";
-  message?: string;
-  data?: unknown;
-};
-
-type Signal = {
-  title: string;
-  snippet: string;
-  url: string;
-  publishedAt: string;
-};
-
-type Opportunity = {
-  title: string;
-  description: string;
-  platformFit: string;
-  audienceAngle: string;
-  evidenceIndexes: number[];
-  newness: string;
-};
-
-type OpportunityGap = {
-  gap: string;
-  whyNow: string;
-  suggestedContent: string;
-};
-
-type OpportunityScore = {
-  title: string;
-  score: number;
-  risk: string;
-  effort: string;
-  rationale: string;
-  recommended: boolean;
-};
-
-type Playbook = {
-  positioning: string;
-  contentPillars: string[];
-  weeklyPlan: string[];
-  monetizationIdeas: string[];
-  collaborationTargets: string[];
-  watchouts: string[];
-};
-
 type PipelineResults = {
   signals: Signal[];
+  sourcePolicy?: SourcePolicyReport;
+  sourceMetrics?: SourceMetrics;
+  dateWindow?: DateWindowReport;
+  dedup?: DedupReport;
   normalized: Signal[];
   opportunities: Opportunity[];
   gaps: OpportunityGap[];
   scored: OpportunityScore[];
+  suggestions: Suggestion[];
   playbook?: Playbook;
 };
 
@@ -94,11 +92,12 @@ type StageState = {
   description: string;
   icon: React.ReactNode;
   status: StageStatus;
+  cached?: boolean;
 };
 
 const MotionCard = motion(Card);
 
-const stagesMeta: Omit<StageState, "status">[] = [
+const stagesMeta: Omit<StageState, "status" | "cached">[] = [
   {
     key: "A",
     title: "Perplexity Signals",
@@ -153,21 +152,31 @@ export default function Home() {
   const [platform, setPlatform] = useState("");
   const [audience, setAudience] = useState("");
   const [country, setCountry] = useState("");
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [mode, setMode] = useState("creator");
+  const [historyKey, setHistoryKey] = useState(0);
+  const [loadedMoodRun, setLoadedMoodRun] = useState<MoodRun | null>(null);
   const [loading, setLoading] = useState(false);
   const [logs, setLogs] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<PipelineSummary | null>(null);
   const [results, setResults] = useState<PipelineResults>({
     signals: [],
     normalized: [],
     opportunities: [],
     gaps: [],
     scored: [],
+    suggestions: [],
     playbook: undefined,
   });
   const [stages, setStages] = useState<StageState[]>(
     stagesMeta.map((stage) => ({ ...stage, status: "idle" }))
   );
   const abortRef = useRef<AbortController | null>(null);
+  const [reviewer, setReviewer] = useReviewer();
+  const [workspaceInput, setWorkspace] = useWorkspace();
+  const workspace = workspaceInput.trim() || DEFAULT_WORKSPACE;
+  const [correctedScores, setCorrectedScores] = useState<Set<number>>(new Set());
 
   const { scrollYProgress } = useScroll();
   const heroParallax = useTransform(scrollYProgress, [0, 1], [0, 60]);
@@ -193,14 +202,21 @@ export default function Home() {
     });
     return byTitle;
   }, [evidenceSignals, results.opportunities]);
+  const suggestionsByTitle = useMemo(
+    () => new Map(results.suggestions.map((suggestion) => [suggestion.title, suggestion])),
+    [results.suggestions]
+  );
 
-  const setStageStatus = useCallback((stageKey: StageKey, status: StageStatus) => {
-    setStages((prev) =>
-      prev.map((stage) =>
-        stage.key === stageKey ? { ...stage, status } : stage
-      )
-    );
-  }, []);
+  const setStageStatus = useCallback(
+    (stageKey: StageKey, status: StageStatus, cached?: boolean) => {
+      setStages((prev) =>
+        prev.map((stage) =>
+          stage.key === stageKey ? { ...stage, status, cached } : stage
+        )
+      );
+    },
+    []
+  );
 
   const appendLog = useCallback((message: string) => {
     setLogs((prev) => [...prev, message]);
@@ -209,17 +225,48 @@ export default function Home() {
   const resetPipeline = useCallback(() => {
     setLogs([]);
     setError(null);
+    setSummary(null);
     setResults({
       signals: [],
+      sourcePolicy: undefined,
+      sourceMetrics: undefined,
+      dateWindow: undefined,
+      dedup: undefined,
       normalized: [],
       opportunities: [],
       gaps: [],
       scored: [],
+      suggestions: [],
       playbook: undefined,
     });
     setStages(stagesMeta.map((stage) => ({ ...stage, status: "idle" })));
   }, []);
 
+  const applyStageData = useCallback(
+    <K extends StageKey>(stage: K, data: StageData[K]) => {
+      setResults((prev) => {
+        if (stage === "A") {
+          const { signals, sourcePolicy, sourceMetrics, dateWindow, dedup } =
+            data as StageData["A"];
+          return { ...prev, signals, sourcePolicy, sourceMetrics, dateWindow, dedup };
+        }
+        if (stage === "B") {
+          return { ...prev, normalized: (data as StageData["B"]).normalized };
+        }
+        if (stage === "C") {
+          const { opportunities, gaps } = data as StageData["C"];
+          return { ...prev, opportunities, gaps };
+        }
+        if (stage === "D") {
+          const { scored, suggestions } = data as StageData["D"];
+          return { ...prev, scored, suggestions };
+        }
+        return { ...prev, playbook: (data as StageData["E"]).playbook };
+      });
+    },
+    []
+  );
+
   const handleEvent = useCallback((event: StageEvent) => {
     if (event.status === "start") {
       setStageStatus(event.stage, "running");
@@ -231,45 +278,78 @@ export default function Home() {
       return;
     }
     if (event.status === "complete") {
-      setStageStatus(event.stage, "complete");
+      setStageStatus(event.stage, "complete", event.cached);
       if (event.message) appendLog(event.message);
-      if (event.stage === "A" && event.data && typeof event.data === "object") {
-        const data = event.data as { signals?: Signal[] };
-        setResults((prev) => ({ ...prev, signals: data.signals ?? [] }));
-      }
-      if (event.stage === "B" && event.data && typeof event.data === "object") {
-        const data = event.data as { normalized?: Signal[] };
-        setResults((prev) => ({ ...prev, normalized: data.normalized ?? [] }));
-      }
-      if (event.stage === "C" && event.data && typeof event.data === "object") {
-        const data = event.data as {
-          opportunities?: Opportunity[];
-          gaps?: OpportunityGap[];
-        };
-        setResults((prev) => ({
-          ...prev,
-          opportunities: data.opportunities ?? [],
-          gaps: data.gaps ?? [],
-        }));
-      }
-      if (event.stage === "D" && event.data && typeof event.data === "object") {
-        const data = event.data as { scored?: OpportunityScore[] };
-        setResults((prev) => ({ ...prev, scored: data.scored ?? [] }));
-      }
-      if (event.stage === "E" && event.data && typeof event.data === "object") {
-        const data = event.data as { playbook?: Playbook };
-        setResults((prev) => ({ ...prev, playbook: data.playbook }));
+      const parsed = parseStageData(event.stage, event.data);
+      if (!parsed.success) {
+        appendLog(
+          `Stage ${event.stage} returned unexpected data: ${parsed.issues
+            .map((issue) => `${issue.path} ${issue.message}`)
+            .join("; ")}`
+        );
+        return;
       }
+      applyStageData(event.stage, parsed.data);
       return;
     }
     if (event.status === "error") {
       setStageStatus(event.stage, "error");
-      setError(event.message ?? "Pipeline error");
+      const message = event.message ?? "Pipeline error";
+      setError(event.code ? `${message} (${event.code})` : message);
+      appendLog(message);
+      return;
+    }
+    if (event.status === "summary") {
       if (event.message) appendLog(event.message);
+      const parsed = pipelineSummarySchema.safeParse(event.data);
+      if (parsed.success) {
+        setSummary(parsed.data);
+        if (parsed.data.runId) setHistoryKey((key) => key + 1);
+      }
     }
-  }, [appendLog, setStageStatus]);
+  }, [appendLog, applyStageData, setStageStatus]);
 
-  const runPipeline = useCallback(async () => {
+  const completedOutputs = useCallback((): Partial<StageData> => {
+    const done = new Set(
+      stages.filter((stage) => stage.status === "complete").map((stage) => stage.key)
+    );
+    const outputs: Partial<StageData> = {
+      A: done.has("A")
+        ? {
+            signals: results.signals,
+            sourcePolicy: results.sourcePolicy,
+            sourceMetrics: results.sourceMetrics,
+            dateWindow: results.dateWindow,
+            dedup: results.dedup,
+          }
+        : undefined,
+      B: done.has("B") ? { normalized: results.normalized } : undefined,
+      C: done.has("C")
+        ? { opportunities: results.opportunities, gaps: results.gaps }
+        : undefined,
+      D: done.has("D")
+        ? { scored: results.scored, suggestions: results.suggestions }
+        : undefined,
+      E: done.has("E") && results.playbook ? { playbook: results.playbook } : undefined,
+    };
+    return outputs;
+  }, [results, stages]);
+
+  const canResumeFrom = useCallback(
+    (stageKey: StageKey) => {
+      const index = stages.findIndex((stage) => stage.key === stageKey);
+      return stages.slice(0, index).every((stage) => stage.status === "complete");
+    },
+    [stages]
+  );
+
+  const runPipeline = useCallback(async (startFrom: StageKey = "A") => {
+    const resume =
+      startFrom === "A"
+        ? {}
+        : summary?.runId
+          ? { startFrom, runId: summary.runId }
+          : { startFrom, outputs: completedOutputs() };
     resetPipeline();
     if (!niche.trim() || !platform.trim() || !audience.trim()) {
       setError("Please enter niche, platform, and target audience.");
@@ -294,36 +374,26 @@ export default function Home() {
           platform,
           audience,
           country: country || undefined,
+          refresh: forceRefresh || undefined,
+          workspace,
+          ...resume,
         }),
         signal: controller.signal,
       });
 
       if (!response.ok || !response.body) {
-        setError("Streaming pipeline unavailable.");
+        setError(
+          response.ok
+            ? "Streaming pipeline unavailable."
+            : await readError(response, "Streaming pipeline unavailable.")
+        );
         setLoading(false);
         return;
       }
 
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() ?? "";
-        for (const line of lines) {
-          if (!line.trim()) continue;
-          try {
-            const parsed = JSON.parse(line) as StageEvent;
-            handleEvent(parsed);
-          } catch {
-            continue;
-          }
-        }
-      }
+      await readNdjson(response, stageEventSchema, handleEvent, (_line, issue) =>
+        appendLog(`Skipped malformed stream event: ${issue}`)
+      );
     } catch (err) {
       if (err instanceof DOMException && err.name === "AbortError") {
         return;
@@ -332,7 +402,116 @@ export default function Home() {
     } finally {
       setLoading(false);
     }
-  }, [appendLog, audience, country, handleEvent, niche, platform, resetPipeline]);
+  }, [
+    appendLog,
+    audience,
+    completedOutputs,
+    country,
+    forceRefresh,
+    handleEvent,
+    niche,
+    platform,
+    resetPipeline,
+    summary,
+    workspace,
+  ]);
+
+  const openAnalyzeRun = useCallback((run: AnalyzeRun) => {
+    abortRef.current?.abort();
+    resetPipeline();
+    setNiche(run.inputs.niche);
+    setPlatform(run.inputs.platform);
+    setAudience(run.inputs.audience);
+    setCountry(run.inputs.country ?? "");
+    // Stages with saved outputs count as complete even when older runs
+    // recorded no timing for them (stages reused on a rerun).
+    const completed = new Set<StageKey>();
+    (Object.keys(run.outputs) as StageKey[]).forEach((stage) => {
+      const parsed = parseStageData(stage, run.outputs[stage]);
+      if (!parsed.success) return;
+      applyStageData(stage, parsed.data);
+      completed.add(stage);
+    });
+    run.timings.forEach((timing) => {
+      if (timing.status === "complete") completed.add(timing.stage as StageKey);
+      setStageStatus(
+        timing.stage as StageKey,
+        timing.status === "running" ? "error" : timing.status
+      );
+    });
+    completed.forEach((stage) => setStageStatus(stage, "complete"));
+    const failure = run.errors[0];
+    if (failure) {
+      setError(failure.code ? `${failure.message} (${failure.code})` : failure.message);
+    }
+    setSummary({
+      completed: stagesMeta.map((stage) => stage.key).filter((stage) => completed.has(stage)),
+      failed: failure?.stage as StageKey | undefined,
+      code: failure?.code,
+      runId: run.id,
+    });
+    appendLog(`Reopened saved run "${run.name}"`);
+  }, [appendLog, applyStageData, resetPipeline, setStageStatus]);
+
+  const openRun = useCallback((run: RunRecord) => {
+    if (run.kind === "analyze") {
+      openAnalyzeRun(run);
+      setMode("creator");
+    } else {
+      setLoadedMoodRun(run);
+      setMode("mood");
+    }
+  }, [openAnalyzeRun]);
+
+  const runId = summary?.runId;
+
+  useEffect(() => {
+    setCorrectedScores(new Set());
+    if (!runId) return;
+    fetch(`/api/corrections?runId=${runId}`)
+      .then((response) => (response.ok ? response.json() : { corrections: [] }))
+      .then((payload: { corrections: Correction[] }) =>
+        setCorrectedScores(
+          new Set(
+            payload.corrections
+              .filter((correction) => correction.target === "opportunity")
+              .map((correction) => correction.index)
+          )
+        )
+      )
+      .catch(() => setCorrectedScores(new Set()));
+  }, [runId]);
+
+  const correctScore = useCallback(
+    async (index: number, changes: Partial<Pick<OpportunityScore, "score" | "recommended">>) => {
+      if (!runId) return "Corrections are available once the run has been saved.";
+      if (!reviewer.trim()) return "Enter a reviewer name before saving corrections.";
+      const response = await fetch(`/api/runs/${runId}/corrections`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ target: "opportunity", index, changes, author: reviewer.trim() }),
+      });
+      const payload = (await response.json()) as {
+        run?: RunRecord;
+        corrections?: Correction[];
+        error?: string;
+      };
+      if (!response.ok || payload.run?.kind !== "analyze") {
+        return payload.error ?? "Unable to save correction.";
+      }
+      const scored = parseStageData("D", payload.run.outputs.D);
+      if (scored.success) applyStageData("D", scored.data);
+      setCorrectedScores(
+        new Set(
+          (payload.corrections ?? [])
+            .filter((correction) => correction.target === "opportunity")
+            .map((correction) => correction.index)
+        )
+      );
+      return null;
+    },
+    [applyStageData, reviewer, runId]
+  );
 
   const stageReveal = useScrollReveal();
   const resultReveal = useScrollReveal();
@@ -392,433 +571,574 @@ export default function Home() {
         </div>
       </motion.section>
 
-      <section className="px-6 pb-10 md:px-12">
-        <motion.div
-          className="mx-auto max-w-6xl"
-          initial="hidden"
-          whileInView="visible"
-          viewport={{ once: true, margin: "-100px" }}
-          variants={staggerChildren}
-        >
-          <Card className="glass-panel">
-            <CardHeader className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
-              <div>
-                <CardTitle className="flex items-center gap-2 text-lg">
-                  <Bot className="h-5 w-5 text-sky-300" />
-                  Creator Input
-                </CardTitle>
-                <p className="text-sm text-muted-foreground">
-                  Map your niche, platform, and audience to a playbook in minutes.
-                </p>
-              </div>
-              <Badge className="bg-white/10 text-white/80">
-                Streaming pipeline A → E
-              </Badge>
-            </CardHeader>
-            <CardContent className="grid gap-5 md:grid-cols-4">
-              <div className="space-y-2">
-                <label className="text-xs uppercase tracking-wider text-white/60">
-                  Niche
-                </label>
-                <Input
-                  placeholder="e.g. AI productivity"
-                  value={niche}
-                  onChange={(event) => setNiche(event.target.value)}
-                />
-              </div>
-              <div className="space-y-2">
-                <label className="text-xs uppercase tracking-wider text-white/60">
-                  Platform
-                </label>
-                <Input
-                  placeholder="YouTube, TikTok, Substack"
-                  value={platform}
-                  onChange={(event) => setPlatform(event.target.value)}
-                />
-              </div>
-              <div className="space-y-2">
-                <label className="text-xs uppercase tracking-wider text-white/60">
-                  Target audience
-                </label>
-                <Input
-                  placeholder="Founders, students, creators"
-                  value={audience}
-                  onChange={(event) => setAudience(event.target.value)}
-                />
-              </div>
-              <div className="space-y-2">
-                <label className="text-xs uppercase tracking-wider text-white/60">
-                  Country (optional)
-                </label>
-                <Input
-                  placeholder="USA, India"
-                  value={country}
-                  onChange={(event) => setCountry(event.target.value)}
-                />
-              </div>
-            </CardContent>
-            <CardContent className="flex flex-col items-start justify-between gap-4 md:flex-row md:items-center">
-              <motion.div whileTap={{ scale: 0.96 }}>
-                <Button
-                  size="lg"
-                  onClick={runPipeline}
-                  disabled={loading}
-                  className={cn(loading && "shimmer")}
-                >
-                  <Activity className="h-5 w-5" />
-                  Generate Opportunity Radar
-                </Button>
-              </motion.div>
-              {error ? <span className="text-sm text-rose-300">{error}</span> : null}
-            </CardContent>
-          </Card>
-        </motion.div>
-      </section>
+      <Tabs value={mode} onValueChange={setMode}>
+        <section className="px-6 pb-6 md:px-12">
+          <div className="mx-auto max-w-6xl">
+            <TabsList>
+              <TabsTrigger value="creator" className="gap-2">
+                <Sparkles className="h-4 w-4" />
+                Creator Opportunities
+              </TabsTrigger>
+              <TabsTrigger value="mood" className="gap-2">
+                <Radar className="h-4 w-4" />
+                Public Mood Radar
+              </TabsTrigger>
+              <TabsTrigger value="compare" className="gap-2">
+                <GitCompareArrows className="h-4 w-4" />
+                Compare
+              </TabsTrigger>
+              <TabsTrigger value="history" className="gap-2">
+                <History className="h-4 w-4" />
+                Saved Runs
+              </TabsTrigger>
+              <TabsTrigger value="watchlists" className="gap-2">
+                <CalendarClock className="h-4 w-4" />
+                Watchlists
+              </TabsTrigger>
+              <TabsTrigger value="alerts" className="gap-2">
+                <BellRing className="h-4 w-4" />
+                Alerts
+              </TabsTrigger>
+              <TabsTrigger value="sources" className="gap-2">
+                <ShieldCheck className="h-4 w-4" />
+                Sources
+              </TabsTrigger>
+            </TabsList>
+          </div>
+        </section>
 
-      <section ref={stageReveal.ref} className="px-6 pb-10 md:px-12">
-        <motion.div
-          className="mx-auto max-w-6xl space-y-6"
-          initial="hidden"
-          animate={stageReveal.isVisible ? "visible" : "hidden"}
-          variants={staggerChildren}
-        >
-          <motion.div variants={fadeInUp} className="glass-panel rounded-2xl p-6">
-            <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
-              <div>
-                <p className="text-xs uppercase tracking-[0.3em] text-white/50">
-                  Streaming Timeline
-                </p>
-                <h2 className="mt-2 text-2xl font-semibold text-white">
-                  Creator Opportunity Pipeline
-                </h2>
-              </div>
-              <div className="flex items-center gap-3">
-                <Badge className="bg-white/10 text-white/80">
-                  {progressPercent}% complete
-                </Badge>
-                <motion.div
-                  className="h-2 w-40 overflow-hidden rounded-full bg-white/10"
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                >
-                  <motion.div
-                    className="h-full bg-gradient-to-r from-sky-400 via-violet-400 to-emerald-400"
-                    animate={{ width: `${progressPercent}%` }}
-                    transition={{ duration: 0.6 }}
-                  />
-                </motion.div>
-              </div>
-            </div>
-            <div className="mt-6 grid gap-4 md:grid-cols-5">
-              {stages.map((stage) => (
-                <motion.div
-                  key={stage.key}
-                  className="rounded-2xl border border-white/10 bg-white/5 p-4"
-                  {...hoverSpring}
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-2 text-sm font-semibold">
-                      <div className="rounded-full bg-white/10 p-2 text-white">
-                        {stage.icon}
-                      </div>
-                      <span className="text-white">{stage.title}</span>
-                    </div>
-                    {stage.status === "complete" ? (
-                      <motion.span
-                        initial={{ scale: 0 }}
-                        animate={{ scale: 1 }}
-                        className="text-emerald-300"
-                      >
-                        <CheckCircle2 className="h-4 w-4" />
-                      </motion.span>
-                    ) : null}
+        <TabsContent value="mood" forceMount className="mt-0 data-[state=inactive]:hidden">
+          <MoodRadar
+            workspace={workspace}
+            loadedRun={loadedMoodRun}
+            onRunSaved={() => setHistoryKey((key) => key + 1)}
+          />
+        </TabsContent>
+
+        <TabsContent value="compare" className="mt-0">
+          <Comparison workspace={workspace} />
+        </TabsContent>
+
+        <TabsContent value="history" className="mt-0">
+          <RunHistory refreshKey={historyKey} onOpen={openRun} />
+        </TabsContent>
+
+        <TabsContent value="watchlists" className="mt-0">
+          <Watchlists />
+        </TabsContent>
+
+        <TabsContent value="alerts" className="mt-0">
+          <Alerts />
+        </TabsContent>
+
+        <TabsContent value="sources" className="mt-0">
+          <SourcePolicySettings
+            workspace={workspace}
+            workspaceInput={workspaceInput}
+            onWorkspaceChange={setWorkspace}
+          />
+        </TabsContent>
+
+        <TabsContent value="creator" forceMount className="mt-0 data-[state=inactive]:hidden">
+          <section className="px-6 pb-10 md:px-12">
+            <motion.div
+              className="mx-auto max-w-6xl"
+              initial="hidden"
+              whileInView="visible"
+              viewport={{ once: true, margin: "-100px" }}
+              variants={staggerChildren}
+            >
+              <Card className="glass-panel">
+                <CardHeader className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                  <div>
+                    <CardTitle className="flex items-center gap-2 text-lg">
+                      <Bot className="h-5 w-5 text-sky-300" />
+                      Creator Input
+                    </CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      Map your niche, platform, and audience to a playbook in minutes.
+                    </p>
                   </div>
-                  <p className="mt-3 text-xs text-white/60">{stage.description}</p>
-                  {stage.status === "running" ? (
-                    <div className="mt-3 h-1 overflow-hidden rounded-full bg-white/10">
-                      <motion.div
-                        className="h-full w-1/2 bg-sky-400"
-                        animate={{ x: ["-100%", "200%"] }}
-                        transition={{ repeat: Infinity, duration: 1.2 }}
-                      />
-                    </div>
-                  ) : null}
-                </motion.div>
-              ))}
-            </div>
-          </motion.div>
+                  <Badge className="bg-white/10 text-white/80">
+                    Streaming pipeline A → E
+                  </Badge>
+                </CardHeader>
+                <CardContent className="grid gap-5 md:grid-cols-4">
+                  <div className="space-y-2">
+                    <label className="text-xs uppercase tracking-wider text-white/60">
+                      Niche
+                    </label>
+                    <Input
+                      placeholder="e.g. AI productivity"
+                      value={niche}
+                      onChange={(event) => setNiche(event.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-xs uppercase tracking-wider text-white/60">
+                      Platform
+                    </label>
+                    <Input
+                      placeholder="YouTube, TikTok, Substack"
+                      value={platform}
+                      onChange={(event) => setPlatform(event.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-xs uppercase tracking-wider text-white/60">
+                      Target audience
+                    </label>
+                    <Input
+                      placeholder="Founders, students, creators"
+                      value={audience}
+                      onChange={(event) => setAudience(event.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-xs uppercase tracking-wider text-white/60">
+                      Country (optional)
+                    </label>
+                    <Input
+                      placeholder="USA, India"
+                      value={country}
+                      onChange={(event) => setCountry(event.target.value)}
+                    />
+                  </div>
+                </CardContent>
+                <CardContent className="flex flex-col items-start justify-between gap-4 md:flex-row md:items-center">
+                  <motion.div whileTap={{ scale: 0.96 }}>
+                    <Button
+                      size="lg"
+                      onClick={() => runPipeline()}
+                      disabled={loading}
+                      className={cn(loading && "shimmer")}
+                    >
+                      <Activity className="h-5 w-5" />
+                      Generate Opportunity Radar
+                    </Button>
+                  </motion.div>
+                  <label className="flex items-center gap-2 text-sm text-white/70">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-sky-400"
+                      checked={forceRefresh}
+                      onChange={(event) => setForceRefresh(event.target.checked)}
+                    />
+                    Force refresh (skip cached responses)
+                  </label>
+                  {error ? <span className="text-sm text-rose-300">{error}</span> : null}
+                </CardContent>
+              </Card>
+            </motion.div>
+          </section>
 
-          <motion.div variants={fadeInUp} className="glass-panel rounded-2xl p-6">
-            <div className="flex items-center gap-3">
-              <Activity className="h-5 w-5 text-sky-300" />
-              <h3 className="text-lg font-semibold text-white">Streaming Log</h3>
-            </div>
-            <div className="mt-4 space-y-3">
-              <AnimatePresence>
-                {logs.length ? (
-                  logs.map((entry, index) => (
+          <section ref={stageReveal.ref} className="px-6 pb-10 md:px-12">
+            <motion.div
+              className="mx-auto max-w-6xl space-y-6"
+              initial="hidden"
+              animate={stageReveal.isVisible ? "visible" : "hidden"}
+              variants={staggerChildren}
+            >
+              <motion.div variants={fadeInUp} className="glass-panel rounded-2xl p-6">
+                <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+                  <div>
+                    <p className="text-xs uppercase tracking-[0.3em] text-white/50">
+                      Streaming Timeline
+                    </p>
+                    <h2 className="mt-2 text-2xl font-semibold text-white">
+                      Creator Opportunity Pipeline
+                    </h2>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {summary?.failed ? (
+                      <Badge className="bg-amber-400/20 text-amber-200">
+                        Partial results: {summary.completed.join(", ") || "none"}
+                      </Badge>
+                    ) : null}
+                    <Badge className="bg-white/10 text-white/80">
+                      {progressPercent}% complete
+                    </Badge>
                     <motion.div
-                      key={`${entry}-${index}`}
-                      initial={{ opacity: 0, y: 8 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      exit={{ opacity: 0 }}
-                      className="rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm"
+                      className="h-2 w-40 overflow-hidden rounded-full bg-white/10"
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
                     >
-                      {entry}
+                      <motion.div
+                        className="h-full bg-gradient-to-r from-sky-400 via-violet-400 to-emerald-400"
+                        animate={{ width: `${progressPercent}%` }}
+                        transition={{ duration: 0.6 }}
+                      />
                     </motion.div>
-                  ))
-                ) : (
-                  <p className="text-sm text-white/60">Logs will appear as stages run.</p>
-                )}
-              </AnimatePresence>
-            </div>
-          </motion.div>
-        </motion.div>
-      </section>
-
-      <section ref={resultReveal.ref} className="px-6 pb-16 md:px-12">
-        <motion.div
-          className="mx-auto max-w-6xl space-y-6"
-          initial="hidden"
-          animate={resultReveal.isVisible ? "visible" : "hidden"}
-          variants={staggerChildren}
-        >
-          <motion.div variants={fadeInUp}>
-            <MotionCard className="glass-panel" {...hoverSpring}>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Lightbulb className="h-5 w-5 text-amber-300" />
-                  Opportunities & Content Gaps
-                </CardTitle>
-                <p className="text-sm text-muted-foreground">
-                  Fresh angles and unmet demand surfaced from live signals.
-                </p>
-              </CardHeader>
-              <CardContent className="grid gap-4 md:grid-cols-2">
-                {loading && !results.opportunities.length ? (
-                  <div className="col-span-full grid gap-3 md:grid-cols-2">
-                    {[1, 2, 3, 4].map((item) => (
-                      <div key={item} className="h-24 rounded-2xl bg-white/5 shimmer" />
-                    ))}
                   </div>
-                ) : null}
-                {results.opportunities.map((opportunity) => {
-                  const sources = opportunityEvidence.get(opportunity.title) ?? [];
-                  return (
+                </div>
+                <ExportMenu
+                  className="mt-4"
+                  runId={summary?.runId}
+                  run={{
+                    kind: "analyze",
+                    inputs: { niche, platform, audience, country: country || undefined },
+                    outputs: completedOutputs(),
+                  }}
+                  disabled={loading || !completedCount}
+                />
+                <div className="mt-6 grid gap-4 md:grid-cols-5">
+                  {stages.map((stage) => (
                     <motion.div
-                      key={opportunity.title}
+                      key={stage.key}
                       className="rounded-2xl border border-white/10 bg-white/5 p-4"
-                      whileHover={{ y: -6, rotateX: 2, rotateY: -2 }}
+                      {...hoverSpring}
                     >
                       <div className="flex items-center justify-between">
-                        <p className="text-sm font-semibold text-white">
-                          {opportunity.title}
-                        </p>
-                        <Badge className="bg-white/10 text-white/80">
-                          {opportunity.newness}
-                        </Badge>
-                      </div>
-                      <p className="mt-2 text-xs text-white/70">
-                        {opportunity.description}
-                      </p>
-                      <div className="mt-3 text-xs text-white/50">
-                        {opportunity.platformFit} · {opportunity.audienceAngle}
+                        <div className="flex items-center gap-2 text-sm font-semibold">
+                          <div className="rounded-full bg-white/10 p-2 text-white">
+                            {stage.icon}
+                          </div>
+                          <span className="text-white">{stage.title}</span>
+                        </div>
+                        {stage.status === "complete" ? (
+                          <motion.span
+                            initial={{ scale: 0 }}
+                            animate={{ scale: 1 }}
+                            className="text-emerald-300"
+                          >
+                            <CheckCircle2 className="h-4 w-4" />
+                          </motion.span>
+                        ) : null}
                       </div>
-                      {sources.length ? (
-                        <div className="mt-3 space-y-1 text-xs text-white/60">
-                          <p className="text-[10px] uppercase tracking-wider text-white/40">
-                            Source signals
-                          </p>
-                          {sources.slice(0, 2).map((source) => (
-                            <a
-                              key={source.url}
-                              href={source.url}
-                              target="_blank"
-                              rel="noreferrer"
-                              className="block truncate hover:text-white"
-                            >
-                              {source.title}
-                            </a>
-                          ))}
-                          {sources.length > 2 ? (
-                            <p className="text-[10px] text-white/40">
-                              +{sources.length - 2} more sources
-                            </p>
-                          ) : null}
+                      <p className="mt-3 text-xs text-white/60">{stage.description}</p>
+                      {stage.cached ? (
+                        <Badge className="mt-3 bg-sky-400/20 text-sky-200">Cached</Badge>
+                      ) : null}
+                      {stage.status === "complete" || stage.status === "error" ? (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="mt-3 h-8 px-2 text-xs text-white/70"
+                          onClick={() => runPipeline(stage.key)}
+                          disabled={loading || !canResumeFrom(stage.key)}
+                        >
+                          <RotateCcw className="h-3.5 w-3.5" />
+                          Rerun from here
+                        </Button>
+                      ) : null}
+                      {stage.status === "running" ? (
+                        <div className="mt-3 h-1 overflow-hidden rounded-full bg-white/10">
+                          <motion.div
+                            className="h-full w-1/2 bg-sky-400"
+                            animate={{ x: ["-100%", "200%"] }}
+                            transition={{ repeat: Infinity, duration: 1.2 }}
+                          />
                         </div>
                       ) : null}
                     </motion.div>
-                  );
-                })}
-                {results.gaps.map((gap) => (
-                  <motion.div
-                    key={gap.gap}
-                    className="rounded-2xl border border-white/10 bg-white/5 p-4"
-                    whileHover={{ y: -6, rotateX: 2, rotateY: -2 }}
-                  >
-                    <p className="text-sm font-semibold text-white">{gap.gap}</p>
-                    <p className="mt-2 text-xs text-white/70">{gap.whyNow}</p>
-                    <p className="mt-3 text-xs text-white/50">
-                      Suggested: {gap.suggestedContent}
-                    </p>
-                  </motion.div>
-                ))}
-              </CardContent>
-            </MotionCard>
-          </motion.div>
+                  ))}
+                </div>
+              </motion.div>
 
-          <motion.div variants={fadeInUp}>
-            <MotionCard className="glass-panel" {...hoverSpring}>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <LineChart className="h-5 w-5 text-sky-300" />
-                  Scored Opportunities
-                </CardTitle>
-                <p className="text-sm text-muted-foreground">
-                  Impact and risk scoring for the highest potential angles.
-                </p>
-              </CardHeader>
-              <CardContent className="grid gap-4 md:grid-cols-2">
-                {loading && !results.scored.length ? (
-                  <div className="col-span-full grid gap-3 md:grid-cols-2">
-                    {[1, 2, 3, 4].map((item) => (
-                      <div key={item} className="h-24 rounded-2xl bg-white/5 shimmer" />
-                    ))}
-                  </div>
-                ) : null}
-                {results.scored.map((score) => {
-                  const sources = opportunityEvidence.get(score.title) ?? [];
-                  return (
-                    <motion.div
-                      key={score.title}
-                      className="rounded-2xl border border-white/10 bg-white/5 p-4"
-                      whileHover={{ y: -6, rotateX: 2, rotateY: -2 }}
-                    >
-                      <div className="flex items-center justify-between">
-                        <p className="text-sm font-semibold text-white">{score.title}</p>
-                        <Badge
-                          className={cn(
-                            "bg-white/10 text-white/80",
-                            score.score >= 80 && "animate-pulse"
-                          )}
+              <motion.div variants={fadeInUp} className="glass-panel rounded-2xl p-6">
+                <div className="flex items-center gap-3">
+                  <Activity className="h-5 w-5 text-sky-300" />
+                  <h3 className="text-lg font-semibold text-white">Streaming Log</h3>
+                </div>
+                <div className="mt-4 space-y-3">
+                  <AnimatePresence>
+                    {logs.length ? (
+                      logs.map((entry, index) => (
+                        <motion.div
+                          key={`${entry}-${index}`}
+                          initial={{ opacity: 0, y: 8 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          exit={{ opacity: 0 }}
+                          className="rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm"
                         >
-                          {score.score} / 100
-                        </Badge>
-                      </div>
-                      <p className="mt-2 text-xs text-white/70">{score.rationale}</p>
-                      <div className="mt-3 flex flex-wrap gap-2 text-xs text-white/50">
-                        <span>Risk: {score.risk}</span>
-                        <span>Effort: {score.effort}</span>
-                        {score.recommended ? (
-                          <Badge className="bg-emerald-400/20 text-emerald-200">
-                            High potential
-                          </Badge>
-                        ) : null}
+                          {entry}
+                        </motion.div>
+                      ))
+                    ) : (
+                      <p className="text-sm text-white/60">Logs will appear as stages run.</p>
+                    )}
+                  </AnimatePresence>
+                </div>
+              </motion.div>
+            </motion.div>
+          </section>
+
+          <section ref={resultReveal.ref} className="px-6 pb-16 md:px-12">
+            <motion.div
+              className="mx-auto max-w-6xl space-y-6"
+              initial="hidden"
+              animate={resultReveal.isVisible ? "visible" : "hidden"}
+              variants={staggerChildren}
+            >
+              <SourcePolicySummary report={results.sourcePolicy} dedup={results.dedup} />
+
+              <SourceMetricsCard
+                metrics={results.sourceMetrics}
+                dateWindow={results.dateWindow}
+                subject="creator signals"
+              />
+
+              <motion.div variants={fadeInUp}>
+                <MotionCard className="glass-panel" {...hoverSpring}>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Lightbulb className="h-5 w-5 text-amber-300" />
+                      Opportunities & Content Gaps
+                    </CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      Fresh angles and unmet demand surfaced from live signals.
+                    </p>
+                  </CardHeader>
+                  <CardContent className="grid gap-4 md:grid-cols-2">
+                    {loading && !results.opportunities.length ? (
+                      <div className="col-span-full grid gap-3 md:grid-cols-2">
+                        {[1, 2, 3, 4].map((item) => (
+                          <div key={item} className="h-24 rounded-2xl bg-white/5 shimmer" />
+                        ))}
                       </div>
-                      {sources.length ? (
-                        <div className="mt-3 space-y-1 text-xs text-white/60">
-                          <p className="text-[10px] uppercase tracking-wider text-white/40">
-                            Source signals
-                          </p>
-                          {sources.slice(0, 2).map((source) => (
-                            <a
-                              key={source.url}
-                              href={source.url}
-                              target="_blank"
-                              rel="noreferrer"
-                              className="block truncate hover:text-white"
-                            >
-                              {source.title}
-                            </a>
-                          ))}
-                          {sources.length > 2 ? (
-                            <p className="text-[10px] text-white/40">
-                              +{sources.length - 2} more sources
+                    ) : null}
+                    {results.opportunities.map((opportunity) => {
+                      const sources = opportunityEvidence.get(opportunity.title) ?? [];
+                      return (
+                        <motion.div
+                          key={opportunity.title}
+                          className="rounded-2xl border border-white/10 bg-white/5 p-4"
+                          whileHover={{ y: -6, rotateX: 2, rotateY: -2 }}
+                        >
+                          <div className="flex items-center justify-between">
+                            <p className="text-sm font-semibold text-white">
+                              {opportunity.title}
                             </p>
+                            <Badge className="bg-white/10 text-white/80">
+                              {opportunity.newness}
+                            </Badge>
+                          </div>
+                          <p className="mt-2 text-xs text-white/70">
+                            {opportunity.description}
+                          </p>
+                          <div className="mt-3 text-xs text-white/50">
+                            {opportunity.platformFit} · {opportunity.audienceAngle}
+                          </div>
+                          {sources.length ? (
+                            <div className="mt-3 space-y-1 text-xs text-white/60">
+                              <p className="text-[10px] uppercase tracking-wider text-white/40">
+                                Source signals
+                              </p>
+                              {sources.slice(0, 2).map((source) => (
+                                <a
+                                  key={source.url}
+                                  href={source.url}
+                                  target="_blank"
+                                  rel="noreferrer"
+                                  className="block truncate hover:text-white"
+                                >
+                                  {source.title}
+                                </a>
+                              ))}
+                              {sources.length > 2 ? (
+                                <p className="text-[10px] text-white/40">
+                                  +{sources.length - 2} more sources
+                                </p>
+                              ) : null}
+                            </div>
                           ) : null}
-                        </div>
-                      ) : null}
-                    </motion.div>
-                  );
-                })}
-              </CardContent>
-            </MotionCard>
-          </motion.div>
-
-          <motion.div variants={fadeInUp}>
-            <MotionCard className="glass-panel" {...hoverSpring}>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <ArrowUpRight className="h-5 w-5 text-emerald-300" />
-                  Creator Playbook
-                </CardTitle>
-                <p className="text-sm text-muted-foreground">
-                  Clear next steps for content and monetization.
-                </p>
-              </CardHeader>
-              <CardContent className="grid gap-4 md:grid-cols-2">
-                {loading && !results.playbook ? (
-                  <div className="col-span-full grid gap-3 md:grid-cols-2">
-                    {[1, 2, 3, 4].map((item) => (
-                      <div key={item} className="h-24 rounded-2xl bg-white/5 shimmer" />
+                        </motion.div>
+                      );
+                    })}
+                    {results.gaps.map((gap) => (
+                      <motion.div
+                        key={gap.gap}
+                        className="rounded-2xl border border-white/10 bg-white/5 p-4"
+                        whileHover={{ y: -6, rotateX: 2, rotateY: -2 }}
+                      >
+                        <p className="text-sm font-semibold text-white">{gap.gap}</p>
+                        <p className="mt-2 text-xs text-white/70">{gap.whyNow}</p>
+                        <p className="mt-3 text-xs text-white/50">
+                          Suggested: {gap.suggestedContent}
+                        </p>
+                      </motion.div>
                     ))}
-                  </div>
-                ) : null}
-                {results.playbook ? (
-                  <>
-                    <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
-                      <p className="text-sm font-semibold text-white">Positioning</p>
-                      <p className="mt-2 text-xs text-white/70">
-                        {results.playbook.positioning}
+                  </CardContent>
+                </MotionCard>
+              </motion.div>
+
+              <motion.div variants={fadeInUp}>
+                <MotionCard className="glass-panel" {...hoverSpring}>
+                  <CardHeader className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                    <div>
+                      <CardTitle className="flex items-center gap-2">
+                        <LineChart className="h-5 w-5 text-sky-300" />
+                        Scored Opportunities
+                      </CardTitle>
+                      <p className="text-sm text-muted-foreground">
+                        Impact and risk scoring for the highest potential angles.
                       </p>
                     </div>
-                    <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
-                      <p className="text-sm font-semibold text-white">Content Pillars</p>
-                      <ul className="mt-2 space-y-1 text-xs text-white/70">
-                        {results.playbook.contentPillars.map((pillar) => (
-                          <li key={pillar}>• {pillar}</li>
-                        ))}
-                      </ul>
-                    </div>
-                    <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
-                      <p className="text-sm font-semibold text-white">Weekly Plan</p>
-                      <ul className="mt-2 space-y-1 text-xs text-white/70">
-                        {results.playbook.weeklyPlan.map((item) => (
-                          <li key={item}>• {item}</li>
-                        ))}
-                      </ul>
-                    </div>
-                    <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
-                      <p className="text-sm font-semibold text-white">Monetization</p>
-                      <ul className="mt-2 space-y-1 text-xs text-white/70">
-                        {results.playbook.monetizationIdeas.map((idea) => (
-                          <li key={idea}>• {idea}</li>
-                        ))}
-                      </ul>
-                    </div>
-                    <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
-                      <p className="text-sm font-semibold text-white">Collaboration</p>
-                      <ul className="mt-2 space-y-1 text-xs text-white/70">
-                        {results.playbook.collaborationTargets.map((target) => (
-                          <li key={target}>• {target}</li>
+                    {runId && results.scored.length ? (
+                      <ReviewerInput value={reviewer} onChange={setReviewer} />
+                    ) : null}
+                  </CardHeader>
+                  <CardContent className="grid gap-4 md:grid-cols-2">
+                    {loading && !results.scored.length ? (
+                      <div className="col-span-full grid gap-3 md:grid-cols-2">
+                        {[1, 2, 3, 4].map((item) => (
+                          <div key={item} className="h-24 rounded-2xl bg-white/5 shimmer" />
                         ))}
-                      </ul>
-                    </div>
-                    <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
-                      <p className="text-sm font-semibold text-white">Watchouts</p>
-                      <ul className="mt-2 space-y-1 text-xs text-white/70">
-                        {results.playbook.watchouts.map((item) => (
-                          <li key={item}>• {item}</li>
+                      </div>
+                    ) : null}
+                    {results.scored.map((score, index) => {
+                      const sources = opportunityEvidence.get(score.title) ?? [];
+                      const localRank = suggestionsByTitle.get(score.title);
+                      return (
+                        <motion.div
+                          key={score.title}
+                          className="rounded-2xl border border-white/10 bg-white/5 p-4"
+                          whileHover={{ y: -6, rotateX: 2, rotateY: -2 }}
+                        >
+                          <div className="flex items-center justify-between">
+                            <p className="text-sm font-semibold text-white">{score.title}</p>
+                            <Badge
+                              className={cn(
+                                "bg-white/10 text-white/80",
+                                score.score >= 80 && "animate-pulse"
+                              )}
+                            >
+                              {score.score} / 100
+                            </Badge>
+                          </div>
+                          <p className="mt-2 text-xs text-white/70">{score.rationale}</p>
+                          <div className="mt-3 flex flex-wrap gap-2 text-xs text-white/50">
+                            <span>Risk: {score.risk}</span>
+                            <span>Effort: {score.effort}</span>
+                            {score.recommended ? (
+                              <Badge className="bg-emerald-400/20 text-emerald-200">
+                                High potential
+                              </Badge>
+                            ) : null}
+                            {localRank ? (
+                              <Badge
+                                className="bg-sky-400/15 text-sky-200"
+                                title={localRank.signals.rationale.join(" · ")}
+                              >
+                                Evidence rank {localRank.score} · {localRank.confidenceLabel}
+                              </Badge>
+                            ) : null}
+                          </div>
+                          {runId ? (
+                            <div className="mt-3">
+                              <ScoreCorrection
+                                score={score}
+                                corrected={correctedScores.has(index)}
+                                onSave={(changes) => correctScore(index, changes)}
+                              />
+                            </div>
+                          ) : null}
+                          {sources.length ? (
+                            <div className="mt-3 space-y-1 text-xs text-white/60">
+                              <p className="text-[10px] uppercase tracking-wider text-white/40">
+                                Source signals
+                              </p>
+                              {sources.slice(0, 2).map((source) => (
+                                <a
+                                  key={source.url}
+                                  href={source.url}
+                                  target="_blank"
+                                  rel="noreferrer"
+                                  className="block truncate hover:text-white"
+                                >
+                                  {source.title}
+                                </a>
+                              ))}
+                              {sources.length > 2 ? (
+                                <p className="text-[10px] text-white/40">
+                                  +{sources.length - 2} more sources
+                                </p>
+                              ) : null}
+                            </div>
+                          ) : null}
+                        </motion.div>
+                      );
+                    })}
+                  </CardContent>
+                </MotionCard>
+              </motion.div>
+
+              <motion.div variants={fadeInUp}>
+                <MotionCard className="glass-panel" {...hoverSpring}>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <ArrowUpRight className="h-5 w-5 text-emerald-300" />
+                      Creator Playbook
+                    </CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      Clear next steps for content and monetization.
+                    </p>
+                  </CardHeader>
+                  <CardContent className="grid gap-4 md:grid-cols-2">
+                    {loading && !results.playbook ? (
+                      <div className="col-span-full grid gap-3 md:grid-cols-2">
+                        {[1, 2, 3, 4].map((item) => (
+                          <div key={item} className="h-24 rounded-2xl bg-white/5 shimmer" />
                         ))}
-                      </ul>
-                    </div>
-                  </>
-                ) : null}
-              </CardContent>
-            </MotionCard>
-          </motion.div>
-        </motion.div>
-      </section>
+                      </div>
+                    ) : null}
+                    {results.playbook ? (
+                      <>
+                        <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+                          <p className="text-sm font-semibold text-white">Positioning</p>
+                          <p className="mt-2 text-xs text-white/70">
+                            {results.playbook.positioning}
+                          </p>
+                        </div>
+                        <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+                          <p className="text-sm font-semibold text-white">Content Pillars</p>
+                          <ul className="mt-2 space-y-1 text-xs text-white/70">
+                            {results.playbook.contentPillars.map((pillar) => (
+                              <li key={pillar}>• {pillar}</li>
+                            ))}
+                          </ul>
+                        </div>
+                        <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+                          <p className="text-sm font-semibold text-white">Weekly Plan</p>
+                          <ul className="mt-2 space-y-1 text-xs text-white/70">
+                            {results.playbook.weeklyPlan.map((item) => (
+                              <li key={item}>• {item}</li>
+                            ))}
+                          </ul>
+                        </div>
+                        <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+                          <p className="text-sm font-semibold text-white">Monetization</p>
+                          <ul className="mt-2 space-y-1 text-xs text-white/70">
+                            {results.playbook.monetizationIdeas.map((idea) => (
+                              <li key={idea}>• {idea}</li>
+                            ))}
+                          </ul>
+                        </div>
+                        <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+                          <p className="text-sm font-semibold text-white">Collaboration</p>
+                          <ul className="mt-2 space-y-1 text-xs text-white/70">
+                            {results.playbook.collaborationTargets.map((target) => (
+                              <li key={target}>• {target}</li>
+                            ))}
+                          </ul>
+                        </div>
+                        <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+                          <p className="text-sm font-semibold text-white">Watchouts</p>
+                          <ul className="mt-2 space-y-1 text-xs text-white/70">
+                            {results.playbook.watchouts.map((item) => (
+                              <li key={item}>• {item}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      </>
+                    ) : null}
+                  </CardContent>
+                </MotionCard>
+              </motion.div>
+            </motion.div>
+          </section>
+        </TabsContent>
+      </Tabs>
     </main>
   );
 }
@@ -0,0 +1,355 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { BellRing, Pause, Play, Plus, RefreshCw, Send, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { fadeInUp, staggerChildren } from "@/lib/motion";
+import type { AlertCondition } from "@/lib/contracts";
+import type { AlertDelivery, AlertRule } from "@/lib/models";
+
+type ConditionType = AlertCondition["type"];
+
+type AlertsPayload = {
+  rules: AlertRule[];
+  deliveries: AlertDelivery[];
+  webhookConfigured: boolean;
+  signed: boolean;
+};
+
+const emptyFields = {
+  emotion: "Anger",
+  threshold: "40",
+  minSize: "5",
+  minScore: "85",
+};
+
+function describeCondition(condition: AlertCondition) {
+  if (condition.type === "emotion_share") {
+    return `${condition.emotion} > ${condition.threshold}%`;
+  }
+  if (condition.type === "new_cluster") {
+    return `New cluster ≥ ${condition.minSize}`;
+  }
+  return `Score ≥ ${condition.minScore}${condition.requireRecommended ? " · recommended" : ""}`;
+}
+
+function formatTime(value: string) {
+  return new Date(value).toLocaleString();
+}
+
+export function Alerts() {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [deliveries, setDeliveries] = useState<AlertDelivery[]>([]);
+  const [webhook, setWebhook] = useState({ configured: false, signed: false });
+  const [loading, setLoading] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [type, setType] = useState<ConditionType>("emotion_share");
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState("");
+  const [requireRecommended, setRequireRecommended] = useState(true);
+  const [fields, setFields] = useState(emptyFields);
+
+  const loadAlerts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/alerts");
+      if (!response.ok) {
+        setError("Unable to load alerts.");
+        return;
+      }
+      const payload = (await response.json()) as AlertsPayload;
+      setRules(payload.rules);
+      setDeliveries(payload.deliveries);
+      setWebhook({ configured: payload.webhookConfigured, signed: payload.signed });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load alerts.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [loadAlerts]);
+
+  const setField = (key: keyof typeof emptyFields) => (value: string) =>
+    setFields((prev) => ({ ...prev, [key]: value }));
+
+  const addRule = useCallback(async () => {
+    setError(null);
+    const condition =
+      type === "emotion_share"
+        ? { type, emotion: fields.emotion, threshold: Number(fields.threshold) }
+        : type === "new_cluster"
+          ? { type, minSize: Number(fields.minSize) }
+          : { type, minScore: Number(fields.minScore), requireRecommended };
+    const response = await fetch("/api/alerts", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: name || undefined, scope, condition }),
+    });
+    const payload = (await response.json()) as { rule?: AlertRule; error?: string };
+    if (!response.ok || !payload.rule) {
+      setError(payload.error ?? "Unable to create alert rule.");
+      return;
+    }
+    setRules((prev) => [...prev, payload.rule as AlertRule]);
+    setName("");
+    setScope("");
+  }, [fields, name, requireRecommended, scope, type]);
+
+  const toggleRule = useCallback(async (rule: AlertRule) => {
+    const response = await fetch(`/api/alerts/${rule.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ enabled: !rule.enabled }),
+    });
+    if (!response.ok) {
+      setError("Unable to update alert rule.");
+      return;
+    }
+    const payload = (await response.json()) as { rule: AlertRule };
+    setRules((prev) => prev.map((entry) => (entry.id === rule.id ? payload.rule : entry)));
+  }, []);
+
+  const removeRule = useCallback(async (id: string) => {
+    const response = await fetch(`/api/alerts/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      setError("Unable to delete alert rule.");
+      return;
+    }
+    setRules((prev) => prev.filter((rule) => rule.id !== id));
+  }, []);
+
+  const sendTest = useCallback(async () => {
+    setTesting(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/alerts/test", { method: "POST" });
+      const payload = (await response.json()) as { delivery?: AlertDelivery };
+      if (payload.delivery) {
+        setDeliveries((prev) => [payload.delivery as AlertDelivery, ...prev]);
+      }
+    } finally {
+      setTesting(false);
+    }
+  }, []);
+
+  const conditionInputs: [keyof typeof emptyFields, string, string][] =
+    type === "emotion_share"
+      ? [
+          ["emotion", "Emotion", "Anger"],
+          ["threshold", "Share above (%)", "40"],
+        ]
+      : type === "new_cluster"
+        ? [["minSize", "Minimum size", "5"]]
+        : [["minScore", "Minimum score", "85"]];
+
+  return (
+    <section className="px-6 pb-16 md:px-12">
+      <motion.div
+        className="mx-auto max-w-6xl space-y-6"
+        initial="hidden"
+        animate="visible"
+        variants={staggerChildren}
+      >
+        <motion.div variants={fadeInUp}>
+          <Card className="glass-panel">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <BellRing className="h-5 w-5 text-amber-300" />
+                New Alert Rule
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Rules are checked against every fresh mood result and Stage D score set.
+                Matches are posted to the configured webhook.
+              </p>
+            </CardHeader>
+            <CardContent className="grid gap-5 md:grid-cols-4">
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-wider text-white/60">Condition</label>
+                <Select value={type} onValueChange={(value) => setType(value as ConditionType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="emotion_share">Emotion share</SelectItem>
+                    <SelectItem value="new_cluster">New cluster</SelectItem>
+                    <SelectItem value="opportunity_score">Opportunity score</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-wider text-white/60">Name</label>
+                <Input
+                  placeholder="Optional"
+                  value={name}
+                  onChange={(event) => setName(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <label className="text-xs uppercase tracking-wider text-white/60">Scope</label>
+                <Input
+                  placeholder="Topic or niche contains… (empty matches all)"
+                  value={scope}
+                  onChange={(event) => setScope(event.target.value)}
+                />
+              </div>
+              {conditionInputs.map(([key, label, placeholder]) => (
+                <div key={key} className="space-y-2">
+                  <label className="text-xs uppercase tracking-wider text-white/60">
+                    {label}
+                  </label>
+                  <Input
+                    placeholder={placeholder}
+                    value={fields[key]}
+                    onChange={(event) => setField(key)(event.target.value)}
+                  />
+                </div>
+              ))}
+              {type === "opportunity_score" ? (
+                <label className="flex items-center gap-2 self-end pb-2 text-sm text-white/70">
+                  <input
+                    type="checkbox"
+                    checked={requireRecommended}
+                    onChange={(event) => setRequireRecommended(event.target.checked)}
+                  />
+                  Only recommended
+                </label>
+              ) : null}
+            </CardContent>
+            <CardContent className="flex flex-wrap items-center gap-4">
+              <Button onClick={addRule}>
+                <Plus className="h-4 w-4" />
+                Add rule
+              </Button>
+              <Button variant="outline" onClick={sendTest} disabled={testing}>
+                <Send className={cn("h-4 w-4", testing && "animate-pulse")} />
+                Send test alert
+              </Button>
+              <span className="text-xs text-white/50">
+                {webhook.configured
+                  ? webhook.signed
+                    ? "Webhook configured · signed"
+                    : "Webhook configured · unsigned"
+                  : "Set ALERT_WEBHOOK_URL to deliver alerts"}
+              </span>
+              {error ? <span className="text-sm text-rose-300">{error}</span> : null}
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        <motion.div variants={fadeInUp}>
+          <Card className="glass-panel">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="text-lg">Alert Rules</CardTitle>
+              <Button variant="outline" size="sm" onClick={loadAlerts} disabled={loading}>
+                <RefreshCw className={cn("h-4 w-4", loading && "animate-spin")} />
+                Refresh
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {!loading && !rules.length ? (
+                <p className="text-sm text-white/60">No alert rules yet.</p>
+              ) : null}
+              {rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-white/5 p-4 md:flex-row md:items-center md:justify-between"
+                >
+                  <div className="min-w-0 space-y-1">
+                    <p className="truncate text-sm font-semibold text-white">{rule.name}</p>
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-white/50">
+                      <Badge className="bg-white/10 text-white/80">
+                        {describeCondition(rule.condition)}
+                      </Badge>
+                      <span>{rule.scope ? `Scope: ${rule.scope}` : "All queries"}</span>
+                      {rule.enabled ? null : (
+                        <Badge className="bg-amber-400/20 text-amber-200">Paused</Badge>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => toggleRule(rule)}
+                      aria-label={rule.enabled ? "Pause rule" : "Resume rule"}
+                    >
+                      {rule.enabled ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => removeRule(rule.id)}
+                      aria-label="Delete rule"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        <motion.div variants={fadeInUp}>
+          <Card className="glass-panel">
+            <CardHeader>
+              <CardTitle className="text-lg">Recent Deliveries</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {!deliveries.length ? (
+                <p className="text-sm text-white/60">No alerts delivered yet.</p>
+              ) : null}
+              {deliveries.slice(0, 20).map((delivery) => (
+                <div
+                  key={`${delivery.eventId}-${delivery.attemptedAt}`}
+                  className="space-y-2 rounded-2xl border border-white/10 bg-white/5 p-4 text-xs text-white/70"
+                >
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge
+                      className={
+                        delivery.ok
+                          ? "bg-emerald-400/20 text-emerald-200"
+                          : "bg-rose-400/20 text-rose-200"
+                      }
+                    >
+                      {delivery.ok ? "Delivered" : "Failed"}
+                      {delivery.status ? ` · ${delivery.status}` : ""}
+                    </Badge>
+                    <span className="text-white/50">{formatTime(delivery.attemptedAt)}</span>
+                    {delivery.error ? (
+                      <span className="truncate text-rose-300">{delivery.error}</span>
+                    ) : null}
+                  </div>
+                  <ul className="space-y-1">
+                    {delivery.matches.map((match, index) => (
+                      <li key={`${match.ruleId}-${index}`}>
+                        <span className="text-white/50">{match.ruleName}:</span> {match.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </motion.div>
+    </section>
+  );
+}
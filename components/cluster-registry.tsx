@@ -0,0 +1,193 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { Check, Fingerprint, Pencil, Scissors, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { readError } from "@/lib/http";
+import { fadeInUp, hoverSpring } from "@/lib/motion";
+import type { MoodQuery, RegisteredCluster } from "@/lib/models";
+
+type ClusterRegistryProps = {
+  query: MoodQuery | null;
+  refreshKey?: number;
+  onChange?: () => void;
+};
+
+const MotionCard = motion(Card);
+
+export function ClusterRegistry({ query, refreshKey, onChange }: ClusterRegistryProps) {
+  const [clusters, setClusters] = useState<RegisteredCluster[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftLabel, setDraftLabel] = useState("");
+
+  const loadClusters = useCallback(async (current: MoodQuery) => {
+    const response = await fetch(`/api/clusters?${new URLSearchParams(current)}`);
+    if (!response.ok) {
+      setError(await readError(response, "Unable to load clusters."));
+      return;
+    }
+    const payload = (await response.json()) as { clusters: RegisteredCluster[] };
+    setClusters(payload.clusters);
+  }, []);
+
+  useEffect(() => {
+    setClusters([]);
+    setError(null);
+    if (query) loadClusters(query);
+  }, [loadClusters, query, refreshKey]);
+
+  const mutate = useCallback(
+    async (url: string, method: "POST" | "PATCH", body: unknown) => {
+      setError(null);
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        setError(await readError(response, "Unable to update clusters."));
+        return;
+      }
+      if (query) await loadClusters(query);
+      onChange?.();
+    },
+    [loadClusters, onChange, query]
+  );
+
+  const saveLabel = async (id: string) => {
+    const label = draftLabel.trim();
+    if (label) await mutate(`/api/clusters/${id}`, "PATCH", { label });
+    setEditingId(null);
+  };
+
+  if (!query || !clusters.length) return null;
+
+  return (
+    <motion.div variants={fadeInUp}>
+      <MotionCard className="glass-panel" {...hoverSpring}>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Fingerprint className="h-5 w-5 text-violet-300" />
+            Cluster Registry
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Narratives keep a stable identity across runs of this query. Merge duplicates
+            or split off labels that were matched by mistake.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+          {clusters.map((cluster) => (
+            <div
+              key={cluster.id}
+              className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-white/5 p-4 md:flex-row md:items-start md:justify-between"
+            >
+              <div className="min-w-0 space-y-2">
+                {editingId === cluster.id ? (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={draftLabel}
+                      onChange={(event) => setDraftLabel(event.target.value)}
+                      onKeyDown={(event) => {
+                        if (event.key === "Enter") saveLabel(cluster.id);
+                        if (event.key === "Escape") setEditingId(null);
+                      }}
+                      className="h-9"
+                      autoFocus
+                    />
+                    <Button size="icon" variant="ghost" onClick={() => saveLabel(cluster.id)}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" onClick={() => setEditingId(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <p className="truncate text-sm font-semibold text-white">{cluster.label}</p>
+                    <Badge className="bg-white/10 font-mono text-[10px] text-white/60">
+                      {cluster.id.slice(0, 8)}
+                    </Badge>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => {
+                        setEditingId(cluster.id);
+                        setDraftLabel(cluster.label);
+                      }}
+                      aria-label="Rename cluster"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  {cluster.aliases.map((alias) => (
+                    <Badge
+                      key={alias}
+                      className="flex items-center gap-1 bg-white/5 text-[10px] text-white/70"
+                    >
+                      {alias}
+                      {cluster.aliases.length > 1 ? (
+                        <button
+                          type="button"
+                          className="text-white/40 hover:text-white"
+                          onClick={() =>
+                            mutate(`/api/clusters/${cluster.id}/split`, "POST", {
+                              aliases: [alias],
+                            })
+                          }
+                          aria-label={`Split "${alias}" into its own cluster`}
+                        >
+                          <Scissors className="h-3 w-3" />
+                        </button>
+                      ) : null}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-xs text-white/40">
+                  Last seen {new Date(cluster.lastSeenAt).toLocaleString()}
+                </p>
+              </div>
+              {clusters.length > 1 ? (
+                <div className="w-full md:w-56">
+                  <Select
+                    value=""
+                    onValueChange={(targetId) =>
+                      mutate("/api/clusters/merge", "POST", { sourceId: cluster.id, targetId })
+                    }
+                  >
+                    <SelectTrigger className="h-9">
+                      <SelectValue placeholder="Merge into…" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {clusters
+                        .filter((entry) => entry.id !== cluster.id)
+                        .map((entry) => (
+                          <SelectItem key={entry.id} value={entry.id}>
+                            {entry.label}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </CardContent>
+      </MotionCard>
+    </motion.div>
+  );
+}
@@ -0,0 +1,402 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { motion } from "framer-motion";
+import { Columns3, GitCompareArrows, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { sourceFocusOptions } from "@/components/mood-radar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MAX_COMPARE_QUERIES } from "@/lib/contracts";
+import { cn } from "@/lib/utils";
+import { fadeInUp, staggerChildren } from "@/lib/motion";
+import type { ComparisonEntry, MoodComparison, MoodQuery } from "@/lib/models";
+
+type Dimension = "region" | "topic";
+
+type ComparisonResponse = {
+  entries: ComparisonEntry[];
+  comparison?: MoodComparison;
+  error?: string;
+};
+
+function entryLabel(query: MoodQuery, dimension: Dimension) {
+  return dimension === "region" ? query.region : query.topic;
+}
+
+export function Comparison({ workspace }: { workspace?: string }) {
+  const [dimension, setDimension] = useState<Dimension>("region");
+  const [fixed, setFixed] = useState("");
+  const [values, setValues] = useState(["", ""]);
+  const [timeWindow, setTimeWindow] = useState("7 days");
+  const [sourceFocus, setSourceFocus] = useState(sourceFocusOptions[0]);
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [entries, setEntries] = useState<ComparisonEntry[]>([]);
+  const [comparison, setComparison] = useState<MoodComparison | null>(null);
+  const [comparedBy, setComparedBy] = useState<Dimension>("region");
+
+  const setValue = (index: number, value: string) =>
+    setValues((prev) => prev.map((entry, position) => (position === index ? value : entry)));
+
+  const runComparison = useCallback(async () => {
+    setError(null);
+    const filled = values.map((value) => value.trim()).filter(Boolean);
+    if (!fixed.trim() || filled.length < 2 || !timeWindow.trim()) {
+      setError(
+        `Enter a ${dimension === "region" ? "topic" : "region"}, a time window and at least two ${dimension}s.`
+      );
+      return;
+    }
+    const queries = filled.map((value) => ({
+      topic: dimension === "topic" ? value : fixed,
+      region: dimension === "region" ? value : fixed,
+      timeWindow,
+      sourceFocus,
+    }));
+    setLoading(true);
+    setEntries([]);
+    setComparison(null);
+    try {
+      const response = await fetch("/api/compare", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ queries, refresh: forceRefresh || undefined, workspace }),
+      });
+      const payload = (await response.json()) as ComparisonResponse;
+      setEntries(payload.entries ?? []);
+      setComparison(payload.comparison ?? null);
+      setComparedBy(dimension);
+      if (!response.ok) setError(payload.error ?? "Comparison failed.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Comparison failed.");
+    } finally {
+      setLoading(false);
+    }
+  }, [dimension, fixed, forceRefresh, sourceFocus, timeWindow, values, workspace]);
+
+  const labels = entries.map((entry) => entryLabel(entry.query, comparedBy));
+  const columns = { gridTemplateColumns: `repeat(${Math.max(entries.length, 1)}, minmax(0, 1fr))` };
+
+  return (
+    <section className="px-6 pb-16 md:px-12">
+      <motion.div
+        className="mx-auto max-w-6xl space-y-6"
+        initial="hidden"
+        animate="visible"
+        variants={staggerChildren}
+      >
+        <motion.div variants={fadeInUp}>
+          <Card className="glass-panel">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <GitCompareArrows className="h-5 w-5 text-sky-300" />
+                Compare Moods
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Read the mood for up to {MAX_COMPARE_QUERIES} regions or topics in parallel and
+                see where they diverge.
+              </p>
+            </CardHeader>
+            <CardContent className="grid gap-5 md:grid-cols-4">
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-wider text-white/60">Compare</label>
+                <Select value={dimension} onValueChange={(value) => setDimension(value as Dimension)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="region">Regions</SelectItem>
+                    <SelectItem value="topic">Topics</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-wider text-white/60">
+                  {dimension === "region" ? "Topic" : "Region"}
+                </label>
+                <Input
+                  placeholder={dimension === "region" ? "e.g. AI regulation" : "India, USA, EU"}
+                  value={fixed}
+                  onChange={(event) => setFixed(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-wider text-white/60">
+                  Time window
+                </label>
+                <Input
+                  placeholder="24 hours, 7 days"
+                  value={timeWindow}
+                  onChange={(event) => setTimeWindow(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-wider text-white/60">
+                  Source focus
+                </label>
+                <Select value={sourceFocus} onValueChange={setSourceFocus}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sourceFocusOptions.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {values.map((value, index) => (
+                <div key={index} className="space-y-2">
+                  <label className="text-xs uppercase tracking-wider text-white/60">
+                    {dimension === "region" ? "Region" : "Topic"} {index + 1}
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <Input value={value} onChange={(event) => setValue(index, event.target.value)} />
+                    {values.length > 2 ? (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() =>
+                          setValues((prev) => prev.filter((_, position) => position !== index))
+                        }
+                        aria-label="Remove comparison value"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    ) : null}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+            <CardContent className="flex flex-wrap items-center gap-4">
+              <Button onClick={runComparison} disabled={loading} className={cn(loading && "shimmer")}>
+                <Columns3 className="h-4 w-4" />
+                Compare
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setValues((prev) => [...prev, ""])}
+                disabled={values.length >= MAX_COMPARE_QUERIES}
+              >
+                <Plus className="h-4 w-4" />
+                Add {dimension}
+              </Button>
+              <label className="flex items-center gap-2 text-sm text-white/70">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-sky-400"
+                  checked={forceRefresh}
+                  onChange={(event) => setForceRefresh(event.target.checked)}
+                />
+                Force refresh
+              </label>
+              {error ? <span className="text-sm text-rose-300">{error}</span> : null}
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {entries.length ? (
+          <motion.div variants={fadeInUp} className="grid gap-4" style={columns}>
+            {entries.map((entry, index) => (
+              <Card key={index} className="glass-panel">
+                <CardHeader className="space-y-2">
+                  <CardTitle className="flex items-center justify-between gap-2 text-base">
+                    <span className="truncate">{labels[index]}</span>
+                    {entry.cached ? (
+                      <Badge className="bg-sky-400/20 text-sky-200">Cached</Badge>
+                    ) : null}
+                  </CardTitle>
+                  {entry.error ? <p className="text-xs text-rose-300">{entry.error}</p> : null}
+                </CardHeader>
+                <CardContent className="space-y-4 text-xs text-white/70">
+                  <div className="space-y-2">
+                    {entry.result?.emotions.slice(0, 5).map((emotion) => (
+                      <div key={emotion.emotion} className="space-y-1">
+                        <div className="flex justify-between">
+                          <span className="text-white">{emotion.emotion}</span>
+                          <span>{emotion.percentage}%</span>
+                        </div>
+                        <div className="h-1.5 overflow-hidden rounded-full bg-white/10">
+                          <div
+                            className="h-full bg-gradient-to-r from-rose-400 to-violet-400"
+                            style={{ width: `${emotion.percentage}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-[10px] uppercase tracking-wider text-white/40">Clusters</p>
+                    {entry.result?.clusters.slice(0, 5).map((cluster) => (
+                      <div key={cluster.label} className="flex justify-between gap-2">
+                        <span>{cluster.label}</span>
+                        <span className="text-white/40">{cluster.size}</span>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </motion.div>
+        ) : null}
+
+        {comparison ? (
+          <>
+            <motion.div variants={fadeInUp}>
+              <Card className="glass-panel">
+                <CardHeader>
+                  <CardTitle className="text-lg">Emotion Share Diff</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Shared emotion taxonomy, sorted by the widest gap between {comparedBy}s.
+                  </p>
+                </CardHeader>
+                <CardContent className="overflow-x-auto">
+                  <table className="w-full text-left text-xs text-white/70">
+                    <thead className="text-[10px] uppercase tracking-wider text-white/50">
+                      <tr>
+                        <th className="px-3 py-2 font-medium">Emotion</th>
+                        {labels.map((label, index) => (
+                          <th key={index} className="px-3 py-2 font-medium">
+                            {label}
+                          </th>
+                        ))}
+                        <th className="px-3 py-2 font-medium">Gap</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {comparison.emotions.map((row) => {
+                        const top = Math.max(...row.shares);
+                        return (
+                          <tr key={row.emotion} className="border-t border-white/5">
+                            <td className="px-3 py-2 text-white">{row.emotion}</td>
+                            {row.shares.map((share, index) => (
+                              <td key={index} className="px-3 py-2">
+                                <div className="flex items-center gap-2">
+                                  <div className="h-1.5 w-20 overflow-hidden rounded-full bg-white/10">
+                                    <div
+                                      className={cn(
+                                        "h-full",
+                                        share === top && row.spread > 0
+                                          ? "bg-rose-400"
+                                          : "bg-white/40"
+                                      )}
+                                      style={{ width: `${share}%` }}
+                                    />
+                                  </div>
+                                  <span>{share}%</span>
+                                </div>
+                              </td>
+                            ))}
+                            <td className="px-3 py-2">
+                              <Badge
+                                className={cn(
+                                  "bg-white/10 text-white/80",
+                                  row.spread >= 20 && "bg-rose-400/20 text-rose-200"
+                                )}
+                              >
+                                {row.spread} pts
+                              </Badge>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </CardContent>
+              </Card>
+            </motion.div>
+
+            <motion.div variants={fadeInUp} className="grid gap-6 md:grid-cols-2">
+              <Card className="glass-panel">
+                <CardHeader>
+                  <CardTitle className="text-lg">Narrative Clusters</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Narratives present everywhere versus only in one {comparedBy}.
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-4 text-xs text-white/70">
+                  <div className="space-y-1">
+                    <p className="text-[10px] uppercase tracking-wider text-white/40">Shared</p>
+                    {comparison.sharedClusters.map((cluster) => (
+                      <div key={cluster.label} className="flex justify-between gap-2">
+                        <span className="text-white">{cluster.label}</span>
+                        <span className="text-white/40">{cluster.sizes.join(" · ")}</span>
+                      </div>
+                    ))}
+                    {!comparison.sharedClusters.length ? (
+                      <p className="text-white/50">No narrative appears everywhere.</p>
+                    ) : null}
+                  </div>
+                  {comparison.uniqueClusters.map((clusters, index) =>
+                    clusters.length ? (
+                      <div key={index} className="space-y-1">
+                        <p className="text-[10px] uppercase tracking-wider text-white/40">
+                          Only in {labels[index]}
+                        </p>
+                        {clusters.map((cluster) => (
+                          <div key={cluster.label} className="flex justify-between gap-2">
+                            <span>{cluster.label}</span>
+                            <span className="text-white/40">{cluster.size}</span>
+                          </div>
+                        ))}
+                      </div>
+                    ) : null
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="glass-panel">
+                <CardHeader>
+                  <CardTitle className="text-lg">Concerns</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    Worries raised everywhere and those distinct to each {comparedBy}.
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-4 text-xs text-white/70">
+                  <div className="flex flex-wrap gap-2">
+                    {comparison.sharedConcerns.map((concern) => (
+                      <Badge key={concern} className="bg-white/10 text-white/80">
+                        {concern}
+                      </Badge>
+                    ))}
+                    {!comparison.sharedConcerns.length ? (
+                      <p className="text-white/50">No concern is shared by all.</p>
+                    ) : null}
+                  </div>
+                  {comparison.distinctConcerns.map((concerns, index) =>
+                    concerns.length ? (
+                      <div key={index} className="space-y-1">
+                        <p className="text-[10px] uppercase tracking-wider text-white/40">
+                          Distinct to {labels[index]}
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                          {concerns.map((concern) => (
+                            <Badge key={concern.label} className="bg-white/5 text-white/70">
+                              {concern.label} · {concern.count}
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+                    ) : null
+                  )}
+                </CardContent>
+              </Card>
+            </motion.div>
+          </>
+        ) : null}
+      </motion.div>
+    </section>
+  );
+}
@@ -0,0 +1,359 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  Check,
+  ExternalLink,
+  Pencil,
+  TableProperties,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ReviewerInput, useReviewer } from "@/components/reviewer-input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  EVIDENCE_FACETS,
+  evidenceRows,
+  facetCounts,
+  filterEvidence,
+  sortEvidence,
+  type EvidenceFacet,
+  type EvidenceFilter,
+  type EvidenceRow,
+  type EvidenceSortKey,
+} from "@/lib/evidence";
+import { parseDate } from "@/lib/dates";
+import { cn } from "@/lib/utils";
+import { fadeInUp, hoverSpring } from "@/lib/motion";
+import type { ClassifiedSnippet, Snippet } from "@/lib/models";
+
+type ClassificationField = "emotion" | "concern" | "narrative" | "cluster";
+
+type ClassificationChanges = Partial<Pick<ClassifiedSnippet, ClassificationField>>;
+
+type EvidenceExplorerProps = {
+  snippets: Snippet[];
+  items: ClassifiedSnippet[];
+  correctedIndexes?: Set<number>;
+  // Resolves to an error message, or null once the correction is saved.
+  onCorrect?: (index: number, changes: ClassificationChanges, author: string) => Promise<string | null>;
+};
+
+const classificationFields: ClassificationField[] = ["emotion", "concern", "narrative", "cluster"];
+
+const MotionCard = motion(Card);
+
+const ALL = "__all__";
+
+const facetLabels: Record<EvidenceFacet, string> = {
+  domain: "Domain",
+  emotion: "Emotion",
+  concern: "Concern",
+  narrative: "Narrative",
+  cluster: "Cluster",
+};
+
+const columns: { key: EvidenceSortKey; label: string }[] = [
+  { key: "title", label: "Source" },
+  { key: "domain", label: "Domain" },
+  { key: "publishedAt", label: "Published" },
+  { key: "emotion", label: "Emotion" },
+  { key: "concern", label: "Concern" },
+  { key: "narrative", label: "Narrative" },
+  { key: "cluster", label: "Cluster" },
+];
+
+function formatDate(value: string) {
+  const time = parseDate(value);
+  return time === null ? "Undated" : new Date(time).toLocaleDateString();
+}
+
+export function EvidenceExplorer({
+  snippets,
+  items,
+  correctedIndexes,
+  onCorrect,
+}: EvidenceExplorerProps) {
+  const [filter, setFilter] = useState<EvidenceFilter>({ search: "", facets: {} });
+  const [sortKey, setSortKey] = useState<EvidenceSortKey>("publishedAt");
+  const [direction, setDirection] = useState<"asc" | "desc">("desc");
+  const [reviewer, setReviewer] = useReviewer();
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState<Record<ClassificationField, string>>({
+    emotion: "",
+    concern: "",
+    narrative: "",
+    cluster: "",
+  });
+  const [saving, setSaving] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+
+  const rows = useMemo(() => evidenceRows(snippets, items), [items, snippets]);
+  const visible = useMemo(
+    () => sortEvidence(filterEvidence(rows, filter), sortKey, direction),
+    [direction, filter, rows, sortKey]
+  );
+  const facets = useMemo(
+    () =>
+      EVIDENCE_FACETS.map((facet) => ({ facet, counts: facetCounts(rows, facet, filter) })),
+    [filter, rows]
+  );
+
+  const setFacet = (facet: EvidenceFacet, value: string) =>
+    setFilter((prev) => ({
+      ...prev,
+      facets: { ...prev.facets, [facet]: value === ALL ? undefined : value },
+    }));
+
+  const toggleSort = (key: EvidenceSortKey) => {
+    if (key === sortKey) {
+      setDirection((prev) => (prev === "asc" ? "desc" : "asc"));
+    } else {
+      setSortKey(key);
+      setDirection(key === "publishedAt" ? "desc" : "asc");
+    }
+  };
+
+  const hasFilters = Boolean(filter.search) || Object.values(filter.facets).some(Boolean);
+  const classified = useMemo(() => new Set(items.map((item) => item.index)), [items]);
+
+  const startEditing = (row: EvidenceRow) => {
+    setEditError(null);
+    setEditingIndex(row.index);
+    setDraft({
+      emotion: row.emotion,
+      concern: row.concern,
+      narrative: row.narrative,
+      cluster: row.cluster,
+    });
+  };
+
+  const saveCorrection = async (row: EvidenceRow) => {
+    if (!onCorrect) return;
+    if (!reviewer.trim()) {
+      setEditError("Enter a reviewer name before saving corrections.");
+      return;
+    }
+    const changes: ClassificationChanges = Object.fromEntries(
+      classificationFields
+        .filter((field) => draft[field].trim() && draft[field].trim() !== row[field])
+        .map((field) => [field, draft[field].trim()])
+    );
+    if (!Object.keys(changes).length) {
+      setEditingIndex(null);
+      return;
+    }
+    setSaving(true);
+    const failure = await onCorrect(row.index, changes, reviewer.trim());
+    setSaving(false);
+    setEditError(failure);
+    if (!failure) setEditingIndex(null);
+  };
+
+  if (!rows.length) return null;
+
+  return (
+    <motion.div variants={fadeInUp}>
+      <MotionCard className="glass-panel" {...hoverSpring}>
+        <CardHeader className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <TableProperties className="h-5 w-5 text-emerald-300" />
+              Evidence Explorer
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Every retrieved snippet with the classification it received.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            {onCorrect ? <ReviewerInput value={reviewer} onChange={setReviewer} /> : null}
+            <Badge className="bg-white/10 text-white/80">
+              {visible.length} of {rows.length} snippets
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {editError ? <p className="text-sm text-rose-300">{editError}</p> : null}
+          <div className="grid gap-3 md:grid-cols-6">
+            <Input
+              placeholder="Search titles, snippets and labels"
+              value={filter.search}
+              onChange={(event) =>
+                setFilter((prev) => ({ ...prev, search: event.target.value }))
+              }
+              className="md:col-span-6"
+            />
+            {facets.map(({ facet, counts }) => (
+              <div key={facet} className="space-y-1">
+                <label className="text-xs uppercase tracking-wider text-white/60">
+                  {facetLabels[facet]}
+                </label>
+                <Select
+                  value={filter.facets[facet] ?? ALL}
+                  onValueChange={(value) => setFacet(facet, value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All</SelectItem>
+                    {counts.map(({ value, count }) => (
+                      <SelectItem key={value} value={value}>
+                        {value} ({count})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <div className="flex items-end">
+              <Button
+                variant="ghost"
+                onClick={() => setFilter({ search: "", facets: {} })}
+                disabled={!hasFilters}
+              >
+                Clear filters
+              </Button>
+            </div>
+          </div>
+          <div className="overflow-x-auto rounded-2xl border border-white/10">
+            <table className="w-full min-w-[900px] text-left text-xs text-white/70">
+              <thead className="bg-white/5 text-[10px] uppercase tracking-wider text-white/50">
+                <tr>
+                  {columns.map((column) => {
+                    const active = column.key === sortKey;
+                    const Icon = active ? (direction === "asc" ? ArrowUp : ArrowDown) : ArrowUpDown;
+                    return (
+                      <th key={column.key} className="px-3 py-2 font-medium">
+                        <button
+                          type="button"
+                          className={cn(
+                            "flex items-center gap-1 hover:text-white",
+                            active && "text-white"
+                          )}
+                          onClick={() => toggleSort(column.key)}
+                        >
+                          {column.label}
+                          <Icon className="h-3 w-3" />
+                        </button>
+                      </th>
+                    );
+                  })}
+                  {onCorrect ? <th className="px-3 py-2" /> : null}
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((row) => (
+                  <tr key={row.index} className="border-t border-white/5 align-top">
+                    <td className="max-w-xs px-3 py-2">
+                      <a
+                        href={row.url}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="flex items-start gap-1 font-medium text-white/90 hover:text-white"
+                      >
+                        <span className="line-clamp-2">{row.title}</span>
+                        <ExternalLink className="mt-0.5 h-3 w-3 shrink-0" />
+                      </a>
+                    </td>
+                    <td className="px-3 py-2">{row.domain}</td>
+                    <td className="whitespace-nowrap px-3 py-2">
+                      {formatDate(row.publishedAt)}
+                      {row.dateStatus === "outside_window" ? (
+                        <Badge className="ml-2 bg-amber-400/20 text-[10px] text-amber-200">
+                          Outside window
+                        </Badge>
+                      ) : null}
+                    </td>
+                    {classificationFields.map((field) => (
+                      <td key={field} className="px-3 py-2">
+                        {editingIndex === row.index ? (
+                          <Input
+                            value={draft[field]}
+                            onChange={(event) =>
+                              setDraft((prev) => ({ ...prev, [field]: event.target.value }))
+                            }
+                            onKeyDown={(event) => {
+                              if (event.key === "Enter") saveCorrection(row);
+                              if (event.key === "Escape") setEditingIndex(null);
+                            }}
+                            className="h-8 min-w-24 px-2 text-xs"
+                          />
+                        ) : (
+                          row[field]
+                        )}
+                      </td>
+                    ))}
+                    {onCorrect ? (
+                      <td className="whitespace-nowrap px-3 py-2">
+                        {editingIndex === row.index ? (
+                          <div className="flex items-center gap-1">
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => saveCorrection(row)}
+                              disabled={saving}
+                              aria-label="Save correction"
+                            >
+                              <Check className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => setEditingIndex(null)}
+                              aria-label="Cancel correction"
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="flex items-center gap-1">
+                            {correctedIndexes?.has(row.index) ? (
+                              <Badge className="bg-amber-400/20 text-[10px] text-amber-200">
+                                Corrected
+                              </Badge>
+                            ) : null}
+                            {classified.has(row.index) ? (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => startEditing(row)}
+                                aria-label="Correct classification"
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            ) : null}
+                          </div>
+                        )}
+                      </td>
+                    ) : null}
+                  </tr>
+                ))}
+                {!visible.length ? (
+                  <tr>
+                    <td colSpan={columns.length + (onCorrect ? 1 : 0)} className="px-3 py-6 text-center text-white/50">
+                      No snippets match these filters.
+                    </td>
+                  </tr>
+                ) : null}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </MotionCard>
+    </motion.div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { ExportFormat, ExportRequest } from "@/lib/contracts";
+
+type ExportMenuProps = {
+  runId?: string;
+  run?: ExportRequest["run"];
+  disabled?: boolean;
+  className?: string;
+};
+
+const formats: { format: ExportFormat; label: string }[] = [
+  { format: "markdown", label: "Markdown" },
+  { format: "json", label: "JSON" },
+  { format: "csv", label: "CSV" },
+  { format: "html", label: "HTML" },
+];
+
+function filenameFrom(response: Response, fallback: string) {
+  const disposition = response.headers.get("Content-Disposition") ?? "";
+  return disposition.match(/filename="([^"]+)"/)?.[1] ?? fallback;
+}
+
+export function ExportMenu({ runId, run, disabled, className }: ExportMenuProps) {
+  const [pending, setPending] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const download = useCallback(
+    async (format: ExportFormat) => {
+      setPending(format);
+      setError(null);
+      try {
+        const response = await fetch("/api/export", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ format, ...(runId ? { runId } : { run }) }),
+        });
+        if (!response.ok) {
+          setError("Export failed.");
+          return;
+        }
+        const url = URL.createObjectURL(await response.blob());
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = filenameFrom(response, `export.${format}`);
+        link.click();
+        URL.revokeObjectURL(url);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Export failed.");
+      } finally {
+        setPending(null);
+      }
+    },
+    [run, runId]
+  );
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2", className)}>
+      <Download className="h-4 w-4 text-white/60" />
+      {formats.map(({ format, label }) => (
+        <Button
+          key={format}
+          size="sm"
+          variant="outline"
+          className="h-8 px-3 text-xs"
+          onClick={() => download(format)}
+          disabled={disabled || pending !== null || (!runId && !run)}
+        >
+          {label}
+        </Button>
+      ))}
+      {error ? <span className="text-xs text-rose-300">{error}</span> : null}
+    </div>
+  );
+}
@@ -0,0 +1,870 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  Activity,
+  CheckCircle2,
+  Compass,
+  HeartPulse,
+  MessagesSquare,
+  Network,
+  Radar,
+  Search,
+  Star,
+  TrendingUp,
+} from "lucide-react";
+import { AnimatePresence, motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ClusterRegistry } from "@/components/cluster-registry";
+import { EvidenceExplorer } from "@/components/evidence-explorer";
+import { ExportMenu } from "@/components/export-menu";
+import { SourceMetricsCard } from "@/components/source-metrics";
+import { SourcePolicySummary } from "@/components/source-policy";
+import { TrendTimeline } from "@/components/trend-timeline";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { deriveClusters } from "@/lib/clusters";
+import { readError } from "@/lib/http";
+import { cn } from "@/lib/utils";
+import { fadeInUp, hoverSpring, staggerChildren } from "@/lib/motion";
+import { VOLATILITY_SPIKE } from "@/lib/volatility";
+import type {
+  ClassifiedSnippet,
+  Correction,
+  DateWindowReport,
+  DedupReport,
+  MoodQuery,
+  MoodResult,
+  MoodRun,
+  RunError,
+  Snippet,
+  SourcePolicyReport,
+  StageTiming,
+} from "@/lib/models";
+
+type MoodStageKey = "retrieve" | "reason";
+
+type StageStatus = "idle" | "running" | "complete" | "error";
+
+type MoodRadarProps = {
+  workspace?: string;
+  loadedRun?: MoodRun | null;
+  onRunSaved?: () => void;
+};
+
+type RankedLabel = {
+  label: string;
+  count: number;
+};
+
+const MotionCard = motion(Card);
+
+export const sourceFocusOptions = [
+  "All public sources",
+  "News outlets",
+  "Blogs and analysis",
+  "Forums and communities",
+  "Government and official",
+];
+
+const moodStagesMeta: { key: MoodStageKey; title: string; description: string }[] = [
+  {
+    key: "retrieve",
+    title: "Retrieve",
+    description: "Public snippets from live sources",
+  },
+  {
+    key: "reason",
+    title: "Reason",
+    description: "Emotions, concerns and narratives",
+  },
+];
+
+function rankLabels(values: string[]) {
+  const counts = new Map<string, RankedLabel>();
+  values.forEach((value) => {
+    const label = value.trim();
+    if (!label) return;
+    const key = label.toLowerCase();
+    const existing = counts.get(key);
+    if (existing) {
+      existing.count += 1;
+    } else {
+      counts.set(key, { label, count: 1 });
+    }
+  });
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+}
+
+const emptyResults: MoodResult = {
+  snippets: [],
+  items: [],
+  clusters: [],
+  emotions: [],
+  clusterEmotions: [],
+  suggestions: [],
+  volatility: null,
+};
+
+export function MoodRadar({ workspace, loadedRun, onRunSaved }: MoodRadarProps) {
+  const [topic, setTopic] = useState("");
+  const [region, setRegion] = useState("");
+  const [timeWindow, setTimeWindow] = useState("7 days");
+  const [sourceFocus, setSourceFocus] = useState(sourceFocusOptions[0]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [stageStatus, setStageStatus] = useState<Record<MoodStageKey, StageStatus>>({
+    retrieve: "idle",
+    reason: "idle",
+  });
+  const [cachedStages, setCachedStages] = useState<Partial<Record<MoodStageKey, boolean>>>({});
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [results, setResults] = useState<MoodResult>(emptyResults);
+  const [timelineQuery, setTimelineQuery] = useState<MoodQuery | null>(null);
+  const [timelineKey, setTimelineKey] = useState(0);
+  const [sourcePolicy, setSourcePolicy] = useState<SourcePolicyReport | null>(null);
+  const [dateWindow, setDateWindow] = useState<DateWindowReport | null>(null);
+  const [dedup, setDedup] = useState<DedupReport | null>(null);
+  const [runId, setRunId] = useState<string | null>(null);
+  const [corrections, setCorrections] = useState<Correction[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!loadedRun) return;
+    abortRef.current?.abort();
+    setTopic(loadedRun.inputs.topic);
+    setRegion(loadedRun.inputs.region);
+    setTimeWindow(loadedRun.inputs.timeWindow);
+    setSourceFocus(loadedRun.inputs.sourceFocus);
+    setResults({ ...emptyResults, ...loadedRun.outputs });
+    setTimelineQuery(loadedRun.inputs);
+    setRunId(loadedRun.id);
+    setCachedStages({});
+    // Saved mood runs do not store the retrieval reports, so drop the previous run's.
+    setSourcePolicy(null);
+    setDateWindow(null);
+    setDedup(null);
+    setError(loadedRun.errors[0]?.message ?? null);
+    setStageStatus({
+      retrieve: "idle",
+      reason: "idle",
+      ...Object.fromEntries(
+        loadedRun.timings.map((timing) => [
+          timing.stage,
+          timing.status === "running" ? "error" : timing.status,
+        ])
+      ),
+    });
+  }, [loadedRun]);
+
+  const concerns = useMemo(
+    () => rankLabels(results.items.map((item) => item.concern)),
+    [results.items]
+  );
+  const narratives = useMemo(
+    () => rankLabels(results.items.map((item) => item.narrative)),
+    [results.items]
+  );
+  const clusters = useMemo(
+    () =>
+      results.clusters.length
+        ? results.clusters
+        : deriveClusters(results.items, results.snippets),
+    [results]
+  );
+  const clusterEvidence = useMemo(() => {
+    const byLabel = new Map<string, Snippet[]>();
+    results.items.forEach((item) => {
+      const snippet = results.snippets[item.index];
+      if (!snippet?.url) return;
+      const key = item.cluster.trim().toLowerCase();
+      const list = byLabel.get(key) ?? [];
+      if (!list.some((entry) => entry.url === snippet.url)) list.push(snippet);
+      byLabel.set(key, list);
+    });
+    return byLabel;
+  }, [results.items, results.snippets]);
+
+  useEffect(() => {
+    setCorrections([]);
+    if (!runId) return;
+    fetch(`/api/corrections?runId=${runId}`)
+      .then((response) => (response.ok ? response.json() : { corrections: [] }))
+      .then((payload: { corrections: Correction[] }) => setCorrections(payload.corrections))
+      .catch(() => setCorrections([]));
+  }, [runId]);
+
+  const correctedIndexes = useMemo(
+    () =>
+      new Set(
+        corrections
+          .filter((correction) => correction.target === "classification")
+          .map((correction) => correction.index)
+      ),
+    [corrections]
+  );
+
+  const correctClassification = useCallback(
+    async (
+      index: number,
+      changes: Partial<Omit<ClassifiedSnippet, "index">>,
+      author: string
+    ) => {
+      if (!runId) return "Corrections are available once the run has been saved.";
+      const response = await fetch(`/api/runs/${runId}/corrections`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ target: "classification", index, changes, author }),
+      });
+      if (!response.ok) return readError(response, "Unable to save correction.");
+      const payload = (await response.json()) as { run: MoodRun; corrections: Correction[] };
+      setResults({ ...emptyResults, ...payload.run.outputs });
+      setCorrections(payload.corrections);
+      return null;
+    },
+    [runId]
+  );
+
+  const setStage = useCallback((key: MoodStageKey, status: StageStatus) => {
+    setStageStatus((prev) => ({ ...prev, [key]: status }));
+  }, []);
+
+  const saveRun = useCallback(
+    async (run: Pick<MoodRun, "inputs" | "outputs" | "timings" | "errors">) => {
+      try {
+        const response = await fetch("/api/runs", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ kind: "mood", ...run }),
+        });
+        if (!response.ok) return;
+        const payload = (await response.json()) as { run: MoodRun };
+        setRunId(payload.run.id);
+        onRunSaved?.();
+      } catch {
+        // History is best effort; the results on screen stay usable.
+      }
+    },
+    [onRunSaved]
+  );
+
+  const runMoodRadar = useCallback(async () => {
+    setError(null);
+    setResults(emptyResults);
+    setSourcePolicy(null);
+    setDateWindow(null);
+    setDedup(null);
+    setRunId(null);
+    setStageStatus({ retrieve: "idle", reason: "idle" });
+    setCachedStages({});
+    if (!topic.trim() || !region.trim() || !timeWindow.trim()) {
+      setError("Please enter topic, region, and time window.");
+      return;
+    }
+
+    if (abortRef.current) {
+      abortRef.current.abort();
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const query = { topic, region, timeWindow, sourceFocus };
+    const refresh = forceRefresh || undefined;
+    const timings: StageTiming[] = [];
+    const errors: RunError[] = [];
+    let outputs: Partial<MoodResult> = {};
+    let aborted = false;
+
+    const startStage = (stage: MoodStageKey) => {
+      setStage(stage, "running");
+      timings.push({ stage, startedAt: new Date().toISOString(), status: "running" });
+    };
+    const finishStage = (stage: MoodStageKey, status: "complete" | "error", message?: string) => {
+      setStage(stage, status);
+      const timing = timings.find((entry) => entry.stage === stage);
+      if (timing) {
+        const completedAt = new Date();
+        timing.status = status;
+        timing.completedAt = completedAt.toISOString();
+        timing.durationMs = completedAt.getTime() - Date.parse(timing.startedAt);
+      }
+      if (status === "error") {
+        const errorMessage = message ?? "Mood radar error";
+        errors.push({ stage, message: errorMessage });
+        setError(errorMessage);
+      }
+    };
+
+    setLoading(true);
+
+    try {
+      startStage("retrieve");
+      const retrieveResponse = await fetch("/api/retrieve", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...query, refresh, workspace }),
+        signal: controller.signal,
+      });
+      if (!retrieveResponse.ok) {
+        finishStage("retrieve", "error", await readError(retrieveResponse, "Retrieval failed."));
+        return;
+      }
+      const {
+        snippets,
+        cached: retrieveCached,
+        sourcePolicy: policyReport,
+        dateWindow: windowReport,
+        dedup: dedupReport,
+      } = (await retrieveResponse.json()) as {
+        snippets: Snippet[];
+        cached?: boolean;
+        sourcePolicy?: SourcePolicyReport;
+        dateWindow?: DateWindowReport;
+        dedup?: DedupReport;
+      };
+      finishStage("retrieve", "complete");
+      setSourcePolicy(policyReport ?? null);
+      setDateWindow(windowReport ?? null);
+      setDedup(dedupReport ?? null);
+      setCachedStages((prev) => ({ ...prev, retrieve: retrieveCached }));
+      outputs = { snippets };
+      setResults((prev) => ({ ...prev, snippets }));
+
+      startStage("reason");
+      const reasonResponse = await fetch("/api/reason", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...query, snippets, refresh, workspace }),
+        signal: controller.signal,
+      });
+      if (!reasonResponse.ok) {
+        finishStage("reason", "error", await readError(reasonResponse, "Reasoning failed."));
+        return;
+      }
+      const { cached: reasonCached, ...reasoned } = (await reasonResponse.json()) as MoodResult & {
+        cached?: boolean;
+      };
+      finishStage("reason", "complete");
+      setCachedStages((prev) => ({ ...prev, reason: reasonCached }));
+      outputs = { ...reasoned, snippets: reasoned.snippets ?? snippets };
+      setResults({ ...emptyResults, ...outputs });
+      setTimelineQuery(query);
+      setTimelineKey((key) => key + 1);
+    } catch (err) {
+      if (err instanceof DOMException && err.name === "AbortError") {
+        aborted = true;
+        return;
+      }
+      const running = timings.find((entry) => entry.status === "running");
+      const message = err instanceof Error ? err.message : "Mood radar error";
+      if (running) {
+        finishStage(running.stage as MoodStageKey, "error", message);
+      } else {
+        setError(message);
+      }
+    } finally {
+      setLoading(false);
+      if (!aborted) {
+        saveRun({ inputs: query, outputs, timings, errors });
+      }
+    }
+  }, [forceRefresh, region, saveRun, setStage, sourceFocus, timeWindow, topic, workspace]);
+
+  const totalItems = results.items.length;
+  const clusterEmotionsByLabel = useMemo(
+    () =>
+      new Map(
+        results.clusterEmotions.map((entry) => [
+          entry.cluster.trim().toLowerCase(),
+          entry.emotions,
+        ])
+      ),
+    [results.clusterEmotions]
+  );
+
+  return (
+    <>
+      <section className="px-6 pb-10 md:px-12">
+        <motion.div
+          className="mx-auto max-w-6xl"
+          initial="hidden"
+          whileInView="visible"
+          viewport={{ once: true, margin: "-100px" }}
+          variants={staggerChildren}
+        >
+          <Card className="glass-panel">
+            <CardHeader className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Radar className="h-5 w-5 text-violet-300" />
+                  Mood Radar Input
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Pick a topic and region to map how the public is feeling right now.
+                </p>
+              </div>
+              <Badge className="bg-white/10 text-white/80">
+                Retrieve → Reason
+              </Badge>
+            </CardHeader>
+            <CardContent className="grid gap-5 md:grid-cols-4">
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-wider text-white/60">
+                  Topic
+                </label>
+                <Input
+                  placeholder="e.g. AI regulation"
+                  value={topic}
+                  onChange={(event) => setTopic(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-wider text-white/60">
+                  Region
+                </label>
+                <Input
+                  placeholder="India, USA, EU"
+                  value={region}
+                  onChange={(event) => setRegion(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-wider text-white/60">
+                  Time window
+                </label>
+                <Input
+                  placeholder="24 hours, 7 days"
+                  value={timeWindow}
+                  onChange={(event) => setTimeWindow(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-wider text-white/60">
+                  Source focus
+                </label>
+                <Select value={sourceFocus} onValueChange={setSourceFocus}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose sources" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sourceFocusOptions.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+            <CardContent className="flex flex-col items-start justify-between gap-4 md:flex-row md:items-center">
+              <motion.div whileTap={{ scale: 0.96 }}>
+                <Button
+                  size="lg"
+                  onClick={runMoodRadar}
+                  disabled={loading}
+                  className={cn(loading && "shimmer")}
+                >
+                  <Activity className="h-5 w-5" />
+                  Read the Public Mood
+                </Button>
+              </motion.div>
+              <label className="flex items-center gap-2 text-sm text-white/70">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-sky-400"
+                  checked={forceRefresh}
+                  onChange={(event) => setForceRefresh(event.target.checked)}
+                />
+                Force refresh
+              </label>
+              <div className="flex flex-wrap items-center gap-3">
+                {moodStagesMeta.map((stage) => (
+                  <div
+                    key={stage.key}
+                    className="flex items-center gap-2 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-xs"
+                  >
+                    <span className="font-semibold text-white">{stage.title}</span>
+                    <span className="text-white/50">{stage.description}</span>
+                    {stageStatus[stage.key] === "complete" ? (
+                      <CheckCircle2 className="h-4 w-4 text-emerald-300" />
+                    ) : null}
+                    {cachedStages[stage.key] ? (
+                      <Badge className="bg-sky-400/20 text-sky-200">Cached</Badge>
+                    ) : null}
+                    {stageStatus[stage.key] === "running" ? (
+                      <span className="h-2 w-2 animate-pulse rounded-full bg-sky-400" />
+                    ) : null}
+                    {stageStatus[stage.key] === "error" ? (
+                      <span className="h-2 w-2 rounded-full bg-rose-400" />
+                    ) : null}
+                  </div>
+                ))}
+              </div>
+              {error ? <span className="text-sm text-rose-300">{error}</span> : null}
+            </CardContent>
+            <CardContent>
+              <ExportMenu
+                run={{
+                  kind: "mood",
+                  inputs: { topic, region, timeWindow, sourceFocus },
+                  outputs: results,
+                }}
+                disabled={loading || !results.snippets.length}
+              />
+            </CardContent>
+          </Card>
+        </motion.div>
+      </section>
+
+      <section className="px-6 pb-16 md:px-12">
+        <motion.div
+          className="mx-auto max-w-6xl space-y-6"
+          initial="hidden"
+          animate="visible"
+          variants={staggerChildren}
+        >
+          {results.volatility ? (
+            <motion.div variants={fadeInUp}>
+              <MotionCard className="glass-panel" {...hoverSpring}>
+                <CardHeader className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      <TrendingUp className="h-5 w-5 text-emerald-300" />
+                      Mood Volatility
+                    </CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      Compared with the previous run on{" "}
+                      {new Date(results.volatility.previousRunAt).toLocaleString()}.
+                    </p>
+                  </div>
+                  <Badge
+                    className={cn(
+                      "bg-white/10 text-white/80",
+                      results.volatility.score >= VOLATILITY_SPIKE && "bg-rose-400/20 text-rose-200"
+                    )}
+                  >
+                    Volatility {results.volatility.score} / 100
+                  </Badge>
+                </CardHeader>
+                <CardContent className="grid gap-4 md:grid-cols-2">
+                  <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+                    <p className="text-sm font-semibold text-white">Emotion shifts</p>
+                    <ul className="mt-2 space-y-1 text-xs text-white/70">
+                      {results.volatility.emotionDeltas
+                        .filter((delta) => delta.delta !== 0)
+                        .slice(0, 5)
+                        .map((delta) => (
+                          <li key={delta.emotion} className="flex justify-between gap-3">
+                            <span>{delta.emotion}</span>
+                            <span
+                              className={cn(
+                                delta.delta > 0 ? "text-rose-200" : "text-emerald-200"
+                              )}
+                            >
+                              {delta.delta > 0 ? "+" : ""}
+                              {delta.delta} pts
+                            </span>
+                          </li>
+                        ))}
+                    </ul>
+                  </div>
+                  <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+                    <p className="text-sm font-semibold text-white">Cluster changes</p>
+                    <div className="mt-2 space-y-1 text-xs text-white/70">
+                      {results.volatility.appearedClusters.map((label) => (
+                        <p key={`new-${label}`}>+ {label}</p>
+                      ))}
+                      {results.volatility.disappearedClusters.map((label) => (
+                        <p key={`gone-${label}`} className="text-white/40">
+                          − {label}
+                        </p>
+                      ))}
+                      {!results.volatility.appearedClusters.length &&
+                      !results.volatility.disappearedClusters.length ? (
+                        <p className="text-white/50">Same narratives as last run.</p>
+                      ) : null}
+                    </div>
+                  </div>
+                </CardContent>
+              </MotionCard>
+            </motion.div>
+          ) : null}
+
+          <SourcePolicySummary report={sourcePolicy} dedup={dedup} />
+
+          <SourceMetricsCard
+            metrics={results.sourceMetrics}
+            dateWindow={dateWindow}
+            subject="public mood"
+          />
+
+          <TrendTimeline query={timelineQuery} refreshKey={timelineKey} />
+
+          <ClusterRegistry
+            query={timelineQuery}
+            refreshKey={timelineKey}
+            onChange={() => setTimelineKey((key) => key + 1)}
+          />
+
+          <motion.div variants={fadeInUp} className="grid gap-6 md:grid-cols-3">
+            <MotionCard className="glass-panel" {...hoverSpring}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <HeartPulse className="h-5 w-5 text-rose-300" />
+                  Emotions
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Dominant feelings across {totalItems || "retrieved"} snippets.
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {loading && !results.emotions.length ? (
+                  <div className="h-24 rounded-2xl bg-white/5 shimmer" />
+                ) : null}
+                {results.emotions.map((emotion) => (
+                  <div key={emotion.emotion} className="space-y-1">
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="text-white">{emotion.emotion}</span>
+                      <span className="text-white/60">
+                        {emotion.percentage}% · {emotion.count}
+                      </span>
+                    </div>
+                    <div className="h-1.5 overflow-hidden rounded-full bg-white/10">
+                      <motion.div
+                        className="h-full bg-gradient-to-r from-rose-400 to-violet-400"
+                        initial={{ width: 0 }}
+                        animate={{ width: `${emotion.percentage}%` }}
+                        transition={{ duration: 0.6 }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </MotionCard>
+
+            <MotionCard className="glass-panel" {...hoverSpring}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Search className="h-5 w-5 text-amber-300" />
+                  Concerns
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  What people are worried about.
+                </p>
+              </CardHeader>
+              <CardContent className="flex flex-wrap gap-2">
+                {loading && !concerns.length ? (
+                  <div className="h-24 w-full rounded-2xl bg-white/5 shimmer" />
+                ) : null}
+                {concerns.map((concern) => (
+                  <Badge key={concern.label} className="bg-white/10 text-white/80">
+                    {concern.label} · {concern.count}
+                  </Badge>
+                ))}
+              </CardContent>
+            </MotionCard>
+
+            <MotionCard className="glass-panel" {...hoverSpring}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MessagesSquare className="h-5 w-5 text-sky-300" />
+                  Narratives
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Stories the conversation keeps returning to.
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {loading && !narratives.length ? (
+                  <div className="h-24 rounded-2xl bg-white/5 shimmer" />
+                ) : null}
+                {narratives.map((narrative) => (
+                  <div
+                    key={narrative.label}
+                    className="flex items-start justify-between gap-3 text-xs text-white/70"
+                  >
+                    <span>{narrative.label}</span>
+                    <span className="text-white/40">{narrative.count}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </MotionCard>
+          </motion.div>
+
+          <motion.div variants={fadeInUp}>
+            <MotionCard className="glass-panel" {...hoverSpring}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Network className="h-5 w-5 text-violet-300" />
+                  Narrative Clusters
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Grouped conversations with links back to the evidence.
+                </p>
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-2">
+                {loading && !clusters.length ? (
+                  <div className="col-span-full grid gap-3 md:grid-cols-2">
+                    {[1, 2, 3, 4].map((item) => (
+                      <div key={item} className="h-24 rounded-2xl bg-white/5 shimmer" />
+                    ))}
+                  </div>
+                ) : null}
+                <AnimatePresence>
+                  {clusters.map((cluster) => {
+                    const clusterKey = cluster.label.trim().toLowerCase();
+                    const sources = clusterEvidence.get(clusterKey) ?? [];
+                    const breakdown = clusterEmotionsByLabel.get(clusterKey) ?? [];
+                    return (
+                      <motion.div
+                        key={cluster.label}
+                        className="rounded-2xl border border-white/10 bg-white/5 p-4"
+                        initial={{ opacity: 0, y: 8 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        whileHover={{ y: -6, rotateX: 2, rotateY: -2 }}
+                      >
+                        <div className="flex items-center justify-between">
+                          <p className="text-sm font-semibold text-white">
+                            {cluster.label}
+                          </p>
+                          <Badge className="bg-white/10 text-white/80">
+                            {cluster.size} snippets
+                          </Badge>
+                        </div>
+                        {breakdown.length ? (
+                          <div className="mt-2 flex flex-wrap gap-2">
+                            {breakdown.slice(0, 3).map((emotion) => (
+                              <Badge
+                                key={emotion.emotion}
+                                className="bg-white/5 text-[10px] text-white/70"
+                              >
+                                {emotion.emotion} {emotion.percentage}%
+                              </Badge>
+                            ))}
+                          </div>
+                        ) : null}
+                        {cluster.exampleHeadlines.length ? (
+                          <ul className="mt-2 space-y-1 text-xs text-white/70">
+                            {cluster.exampleHeadlines.map((headline) => (
+                              <li key={headline}>• {headline}</li>
+                            ))}
+                          </ul>
+                        ) : null}
+                        {sources.length ? (
+                          <div className="mt-3 space-y-1 text-xs text-white/60">
+                            <p className="text-[10px] uppercase tracking-wider text-white/40">
+                              Evidence
+                            </p>
+                            {sources.slice(0, 3).map((source) => (
+                              <a
+                                key={source.url}
+                                href={source.url}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="block truncate hover:text-white"
+                              >
+                                {source.title}
+                              </a>
+                            ))}
+                            {sources.length > 3 ? (
+                              <p className="text-[10px] text-white/40">
+                                +{sources.length - 3} more sources
+                              </p>
+                            ) : null}
+                          </div>
+                        ) : null}
+                      </motion.div>
+                    );
+                  })}
+                </AnimatePresence>
+                {!loading && !clusters.length ? (
+                  <p className="col-span-full flex items-center gap-2 text-sm text-white/60">
+                    <Compass className="h-4 w-4" />
+                    Clusters will appear once the mood has been read.
+                  </p>
+                ) : null}
+              </CardContent>
+            </MotionCard>
+          </motion.div>
+
+          <EvidenceExplorer
+            snippets={results.snippets}
+            items={results.items}
+            correctedIndexes={correctedIndexes}
+            onCorrect={runId ? correctClassification : undefined}
+          />
+
+          <motion.div variants={fadeInUp}>
+            <MotionCard className="glass-panel" {...hoverSpring}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Star className="h-5 w-5 text-amber-300" />
+                  Ranked Narratives
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Scored locally from relevance, recency and source diversity.
+                </p>
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-2">
+                {results.suggestions.map((suggestion) => (
+                  <motion.div
+                    key={suggestion.id}
+                    className="rounded-2xl border border-white/10 bg-white/5 p-4"
+                    whileHover={{ y: -6, rotateX: 2, rotateY: -2 }}
+                  >
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-semibold text-white">{suggestion.title}</p>
+                      <Badge className="bg-white/10 text-white/80">
+                        {suggestion.score} / 100
+                      </Badge>
+                    </div>
+                    <p className="mt-2 text-xs text-white/70">{suggestion.summary}</p>
+                    <div className="mt-3 flex flex-wrap gap-2 text-xs text-white/50">
+                      <span>Relevance {Math.round(suggestion.signals.relevance * 100)}%</span>
+                      <span>Recency {Math.round(suggestion.signals.recency * 100)}%</span>
+                      <span>Diversity {Math.round(suggestion.signals.diversity * 100)}%</span>
+                      <Badge className="bg-sky-400/15 text-sky-200">
+                        {suggestion.confidenceLabel} confidence
+                      </Badge>
+                    </div>
+                    {suggestion.provenance.sources.length ? (
+                      <div className="mt-3 space-y-1 text-xs text-white/60">
+                        <p className="text-[10px] uppercase tracking-wider text-white/40">
+                          Provenance
+                        </p>
+                        {suggestion.provenance.sources.slice(0, 2).map((source) => (
+                          <a
+                            key={source.url}
+                            href={source.url}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="block truncate hover:text-white"
+                          >
+                            {source.domain || source.title} · {source.title}
+                          </a>
+                        ))}
+                      </div>
+                    ) : null}
+                  </motion.div>
+                ))}
+                {!loading && !results.suggestions.length ? (
+                  <p className="col-span-full text-sm text-white/60">
+                    Ranked narratives will appear after reasoning completes.
+                  </p>
+                ) : null}
+              </CardContent>
+            </MotionCard>
+          </motion.div>
+        </motion.div>
+      </section>
+    </>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { UserPen } from "lucide-react";
+import { Input } from "@/components/ui/input";
+
+const STORAGE_KEY = "mood-radar:reviewer";
+
+// Corrections are attributed to whoever is named here; the name is kept per browser.
+export function useReviewer() {
+  const [reviewer, setReviewerState] = useState("");
+
+  useEffect(() => {
+    setReviewerState(window.localStorage.getItem(STORAGE_KEY) ?? "");
+  }, []);
+
+  const setReviewer = useCallback((value: string) => {
+    setReviewerState(value);
+    window.localStorage.setItem(STORAGE_KEY, value);
+  }, []);
+
+  return [reviewer, setReviewer] as const;
+}
+
+type ReviewerInputProps = {
+  value: string;
+  onChange: (value: string) => void;
+};
+
+export function ReviewerInput({ value, onChange }: ReviewerInputProps) {
+  return (
+    <label className="flex items-center gap-2 text-xs text-white/60">
+      <UserPen className="h-4 w-4" />
+      <Input
+        placeholder="Reviewer name"
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        className="h-9 w-44"
+      />
+    </label>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Check, Download, FolderOpen, History, Pencil, RefreshCw, Trash2, X } from "lucide-react";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ExportMenu } from "@/components/export-menu";
+import { cn } from "@/lib/utils";
+import { fadeInUp, staggerChildren } from "@/lib/motion";
+import type { RunRecord, RunSummary } from "@/lib/models";
+
+type RunHistoryProps = {
+  refreshKey: number;
+  onOpen: (run: RunRecord) => void;
+};
+
+function describeInputs(run: RunSummary) {
+  const inputs = run.inputs;
+  if ("niche" in inputs) {
+    return [inputs.niche, inputs.platform, inputs.audience, inputs.country]
+      .filter(Boolean)
+      .join(" · ");
+  }
+  return [inputs.topic, inputs.region, inputs.timeWindow, inputs.sourceFocus]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export function RunHistory({ refreshKey, onOpen }: RunHistoryProps) {
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const loadRuns = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/runs");
+      if (!response.ok) {
+        setError("Unable to load saved runs.");
+        return;
+      }
+      const payload = (await response.json()) as { runs: RunSummary[] };
+      setRuns(payload.runs);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load saved runs.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns, refreshKey]);
+
+  const openRun = useCallback(
+    async (id: string) => {
+      const response = await fetch(`/api/runs/${id}`);
+      if (!response.ok) {
+        setError("Unable to open run.");
+        return;
+      }
+      const payload = (await response.json()) as { run: RunRecord };
+      onOpen(payload.run);
+    },
+    [onOpen]
+  );
+
+  const saveName = useCallback(
+    async (id: string) => {
+      const name = draftName.trim();
+      if (!name) return;
+      const response = await fetch(`/api/runs/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      if (!response.ok) {
+        setError("Unable to rename run.");
+        return;
+      }
+      setRuns((prev) => prev.map((run) => (run.id === id ? { ...run, name } : run)));
+      setEditingId(null);
+    },
+    [draftName]
+  );
+
+  const removeRun = useCallback(async (id: string) => {
+    const response = await fetch(`/api/runs/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      setError("Unable to delete run.");
+      return;
+    }
+    setRuns((prev) => prev.filter((run) => run.id !== id));
+  }, []);
+
+  return (
+    <section className="px-6 pb-16 md:px-12">
+      <motion.div
+        className="mx-auto max-w-6xl"
+        initial="hidden"
+        animate="visible"
+        variants={staggerChildren}
+      >
+        <motion.div variants={fadeInUp}>
+          <Card className="glass-panel">
+            <CardHeader className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <History className="h-5 w-5 text-sky-300" />
+                  Saved Runs
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Reopen earlier findings without spending API credits again.
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button variant="ghost" size="sm" asChild>
+                  <a href="/api/corrections?format=csv" download>
+                    <Download className="h-4 w-4" />
+                    Corrections CSV
+                  </a>
+                </Button>
+                <Button variant="outline" size="sm" onClick={loadRuns} disabled={loading}>
+                  <RefreshCw className={cn("h-4 w-4", loading && "animate-spin")} />
+                  Refresh
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+              {!loading && !runs.length ? (
+                <p className="text-sm text-white/60">No saved runs yet.</p>
+              ) : null}
+              {runs.map((run) => (
+                <div
+                  key={run.id}
+                  className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-white/5 p-4 md:flex-row md:items-center md:justify-between"
+                >
+                  <div className="min-w-0 space-y-1">
+                    {editingId === run.id ? (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={draftName}
+                          onChange={(event) => setDraftName(event.target.value)}
+                          onKeyDown={(event) => {
+                            if (event.key === "Enter") saveName(run.id);
+                            if (event.key === "Escape") setEditingId(null);
+                          }}
+                          className="h-9"
+                          autoFocus
+                        />
+                        <Button size="icon" variant="ghost" onClick={() => saveName(run.id)}>
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" onClick={() => setEditingId(null)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <p className="truncate text-sm font-semibold text-white">{run.name}</p>
+                    )}
+                    <p className="truncate text-xs text-white/50">{describeInputs(run)}</p>
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-white/50">
+                      <Badge className="bg-white/10 text-white/80">
+                        {run.kind === "analyze" ? "Creator radar" : "Mood radar"}
+                      </Badge>
+                      {run.failed ? (
+                        <Badge className="bg-amber-400/20 text-amber-200">Partial</Badge>
+                      ) : null}
+                      <span>{new Date(run.createdAt).toLocaleString()}</span>
+                    </div>
+                    <ExportMenu runId={run.id} className="pt-1" />
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button size="sm" variant="secondary" onClick={() => openRun(run.id)}>
+                      <FolderOpen className="h-4 w-4" />
+                      Open
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => {
+                        setEditingId(run.id);
+                        setDraftName(run.name);
+                      }}
+                      aria-label="Rename run"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => removeRun(run.id)}
+                      aria-label="Delete run"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </motion.div>
+    </section>
+  );
+}
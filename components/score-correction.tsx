@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Pencil, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import type { OpportunityScore } from "@/lib/contracts";
+
+type ScoreChanges = Partial<Pick<OpportunityScore, "score" | "recommended">>;
+
+type ScoreCorrectionProps = {
+  score: OpportunityScore;
+  corrected?: boolean;
+  // Resolves to an error message, or null once the correction is saved.
+  onSave: (changes: ScoreChanges) => Promise<string | null>;
+};
+
+export function ScoreCorrection({ score, corrected, onSave }: ScoreCorrectionProps) {
+  const [editing, setEditing] = useState(false);
+  const [draftScore, setDraftScore] = useState(String(score.score));
+  const [draftRecommended, setDraftRecommended] = useState(score.recommended);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEditing = () => {
+    setDraftScore(String(score.score));
+    setDraftRecommended(score.recommended);
+    setError(null);
+    setEditing(true);
+  };
+
+  const save = async () => {
+    const value = Number(draftScore);
+    if (!Number.isFinite(value) || value < 0 || value > 100) {
+      setError("Score must be between 0 and 100.");
+      return;
+    }
+    const changes: ScoreChanges = {
+      ...(value !== score.score ? { score: value } : {}),
+      ...(draftRecommended !== score.recommended ? { recommended: draftRecommended } : {}),
+    };
+    if (!Object.keys(changes).length) {
+      setEditing(false);
+      return;
+    }
+    setSaving(true);
+    const failure = await onSave(changes);
+    setSaving(false);
+    setError(failure);
+    if (!failure) setEditing(false);
+  };
+
+  if (!editing) {
+    return (
+      <div className="flex items-center gap-1">
+        {corrected ? (
+          <Badge className="bg-amber-400/20 text-[10px] text-amber-200">Corrected</Badge>
+        ) : null}
+        <Button size="icon" variant="ghost" onClick={startEditing} aria-label="Correct score">
+          <Pencil className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-white/70">
+      <Input
+        type="number"
+        min={0}
+        max={100}
+        value={draftScore}
+        onChange={(event) => setDraftScore(event.target.value)}
+        className="h-8 w-20 px-2 text-xs"
+      />
+      <label className="flex items-center gap-1">
+        <input
+          type="checkbox"
+          className="h-4 w-4 accent-emerald-400"
+          checked={draftRecommended}
+          onChange={(event) => setDraftRecommended(event.target.checked)}
+        />
+        Recommended
+      </label>
+      <Button size="icon" variant="ghost" onClick={save} disabled={saving} aria-label="Save score">
+        <Check className="h-4 w-4" />
+      </Button>
+      <Button
+        size="icon"
+        variant="ghost"
+        onClick={() => setEditing(false)}
+        aria-label="Cancel score correction"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+      {error ? <span className="text-rose-300">{error}</span> : null}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { AlertTriangle, Newspaper } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { fadeInUp, hoverSpring } from "@/lib/motion";
+import type { DateWindowReport, SourceMetrics } from "@/lib/models";
+
+type SourceMetricsCardProps = {
+  metrics?: SourceMetrics | null;
+  dateWindow?: DateWindowReport | null;
+  // What the sources feed into, e.g. "public mood".
+  subject?: string;
+};
+
+const MotionCard = motion(Card);
+const MAX_DOMAINS = 6;
+
+const tierStyles = {
+  high: "bg-emerald-400",
+  medium: "bg-sky-400",
+  low: "bg-amber-400",
+} as const;
+
+function formatSpan(hours: number | null) {
+  if (hours === null) return "No dates";
+  if (hours < 1) return "Under an hour";
+  if (hours < 48) return `${Math.round(hours)} hours`;
+  return `${Math.round(hours / 24)} days`;
+}
+
+function windowSummary(report: DateWindowReport) {
+  const parts = [
+    report.dropped ? `${report.dropped} dropped outside the last ${report.timeWindow}` : "",
+    report.mode === "flag" && report.outsideWindow
+      ? `${report.outsideWindow} flagged outside the last ${report.timeWindow}`
+      : "",
+  ];
+  return parts.filter(Boolean).join(" · ");
+}
+
+export function SourceMetricsCard({
+  metrics,
+  dateWindow,
+  subject = "results",
+}: SourceMetricsCardProps) {
+  if (!metrics?.total) return null;
+  const [top] = metrics.domains;
+  const { dateSpread } = metrics;
+  const windowNote = dateWindow ? windowSummary(dateWindow) : "";
+
+  return (
+    <motion.div variants={fadeInUp}>
+      <MotionCard className="glass-panel" {...hoverSpring}>
+        <CardHeader className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Newspaper className="h-5 w-5 text-sky-300" />
+              Source Mix
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {metrics.total} sources from {metrics.uniqueDomains} domains.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Badge className="bg-white/10 text-white/80">
+              Diversity {metrics.diversityIndex.toFixed(2)}
+            </Badge>
+            <Badge className="bg-white/10 text-white/80">
+              Top domain {metrics.topDomainShare}%
+            </Badge>
+            <Badge className="bg-white/10 text-white/80">
+              Spread {formatSpan(dateSpread.spanHours)}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {metrics.concentrated && top ? (
+            <div className="flex items-start gap-2 rounded-xl border border-amber-300/30 bg-amber-400/10 px-3 py-2 text-sm text-amber-100">
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+              <span>
+                {top.share}% of the sources behind the {subject} are from {top.domain}. Treat
+                it as that outlet&apos;s view rather than a broad picture.
+              </span>
+            </div>
+          ) : null}
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              {metrics.domains.slice(0, MAX_DOMAINS).map((entry) => (
+                <div key={entry.domain} className="space-y-1 text-xs">
+                  <div className="flex justify-between gap-2">
+                    <span className="truncate text-white">{entry.domain}</span>
+                    <span className="text-white/50">
+                      {entry.category} · {entry.count} · {entry.share}%
+                    </span>
+                  </div>
+                  <div className="h-1.5 overflow-hidden rounded-full bg-white/10">
+                    <div
+                      className={cn("h-full", tierStyles[entry.tier])}
+                      style={{ width: `${entry.share}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+              {metrics.domains.length > MAX_DOMAINS ? (
+                <p className="text-xs text-white/40">
+                  +{metrics.domains.length - MAX_DOMAINS} more domains
+                </p>
+              ) : null}
+            </div>
+            <div className="space-y-3 text-xs text-white/70">
+              <div>
+                <p className="text-[10px] uppercase tracking-wider text-white/40">Credibility</p>
+                <div className="mt-2 flex h-2 overflow-hidden rounded-full bg-white/10">
+                  {(["high", "medium", "low"] as const).map((tier) => (
+                    <div
+                      key={tier}
+                      className={tierStyles[tier]}
+                      style={{ width: `${(metrics.tiers[tier] / metrics.total) * 100}%` }}
+                    />
+                  ))}
+                </div>
+                <p className="mt-1">
+                  {metrics.tiers.high} high · {metrics.tiers.medium} medium · {metrics.tiers.low}{" "}
+                  low
+                </p>
+              </div>
+              <div>
+                <p className="text-[10px] uppercase tracking-wider text-white/40">Dates</p>
+                <p className="mt-1">
+                  {dateSpread.earliest && dateSpread.latest
+                    ? `${new Date(dateSpread.earliest).toLocaleDateString()} – ${new Date(
+                        dateSpread.latest
+                      ).toLocaleDateString()}`
+                    : "No publication dates"}
+                  {dateSpread.undated ? ` · ${dateSpread.undated} undated` : ""}
+                </p>
+                {windowNote ? <p className="mt-1 text-white/50">{windowNote}</p> : null}
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </MotionCard>
+    </motion.div>
+  );
+}
@@ -0,0 +1,430 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { Copy, Filter, Plus, RotateCcw, Save, ShieldCheck, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  CREDIBILITY_TIERS,
+  SOURCE_CATEGORIES,
+  workspaceSchema,
+  type CredibilityTier,
+  type SourceCategory,
+  type SourceDomainRule,
+} from "@/lib/contracts";
+import { WorkspaceInput } from "@/components/workspace-input";
+import { readError } from "@/lib/http";
+import { cn } from "@/lib/utils";
+import { fadeInUp, hoverSpring, staggerChildren } from "@/lib/motion";
+import type { DedupReport, SourcePolicy, SourcePolicyReport } from "@/lib/models";
+
+type PolicyPayload = {
+  policy: SourcePolicy;
+  defaults: SourcePolicy;
+};
+
+const MotionCard = motion(Card);
+const AUTO = "auto";
+
+const duplicateReasons = {
+  url: "same URL",
+  title: "same title",
+  similar: "near-duplicate",
+} as const;
+
+function splitDomains(value: string) {
+  return value
+    .split(/[\s,]+/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+type SourcePolicySummaryProps = {
+  report?: SourcePolicyReport | null;
+  dedup?: DedupReport | null;
+};
+
+export function SourcePolicySummary({ report, dedup }: SourcePolicySummaryProps) {
+  if (!report) return null;
+  const { policy, filtered } = report;
+  const clusters = dedup?.clusters ?? [];
+  const merged = clusters.reduce((sum, cluster) => sum + cluster.merged.length, 0);
+  return (
+    <motion.div variants={fadeInUp}>
+      <MotionCard className="glass-panel" {...hoverSpring}>
+        <CardHeader className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Filter className="h-5 w-5 text-sky-300" />
+              Source Policy
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {report.kept} sources kept, {filtered.length} filtered out before analysis.
+              {merged
+                ? ` ${merged} duplicates merged into ${clusters.length} ${
+                    clusters.length === 1 ? "story" : "stories"
+                  }.`
+                : ""}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {policy.allowOnly ? (
+              <Badge className="bg-amber-400/20 text-amber-200">Allowlist only</Badge>
+            ) : null}
+            <Badge className="bg-white/10 text-white/80">
+              {policy.block.length} blocked domains
+            </Badge>
+            {policy.blockCategories.length ? (
+              <Badge className="bg-white/10 text-white/80">
+                No {policy.blockCategories.join(", ")}
+              </Badge>
+            ) : null}
+            <Badge className="bg-white/10 text-white/80">Min tier {policy.minTier}</Badge>
+          </div>
+        </CardHeader>
+        {filtered.length ? (
+          <CardContent className="space-y-2">
+            {filtered.map((source, index) => (
+              <div
+                key={`${source.url}-${index}`}
+                className="flex flex-col gap-1 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-xs md:flex-row md:items-center md:justify-between"
+              >
+                <div className="min-w-0">
+                  <p className="truncate text-white">{source.title || source.url}</p>
+                  <p className="text-white/40">
+                    {source.domain || "unknown"} · {source.category} · {source.tier}
+                  </p>
+                </div>
+                <span className="text-rose-200">{source.reason}</span>
+              </div>
+            ))}
+          </CardContent>
+        ) : null}
+        {clusters.length ? (
+          <CardContent className="space-y-2">
+            <p className="flex items-center gap-2 text-xs uppercase tracking-wider text-white/40">
+              <Copy className="h-3.5 w-3.5" />
+              Duplicates
+            </p>
+            {clusters.map((cluster) => (
+              <div
+                key={cluster.url}
+                className="space-y-1 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-xs"
+              >
+                <p className="truncate text-white">{cluster.title || cluster.url}</p>
+                {cluster.merged.map((item, index) => (
+                  <div
+                    key={`${item.url}-${index}`}
+                    className="flex justify-between gap-2 text-white/50"
+                  >
+                    <span className="truncate">{item.title || item.url}</span>
+                    <span className="shrink-0 text-sky-200">
+                      {duplicateReasons[item.reason]}
+                      {item.reason === "similar" ? ` ${Math.round(item.similarity * 100)}%` : ""}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </CardContent>
+        ) : null}
+      </MotionCard>
+    </motion.div>
+  );
+}
+
+type SourcePolicySettingsProps = {
+  workspace: string;
+  // Raw text of the workspace field, which may be mid-edit.
+  workspaceInput: string;
+  onWorkspaceChange: (value: string) => void;
+};
+
+export function SourcePolicySettings({
+  workspace,
+  workspaceInput,
+  onWorkspaceChange,
+}: SourcePolicySettingsProps) {
+  const validWorkspace = workspaceSchema.safeParse(workspace).success;
+  const policyUrl = `/api/source-policy?${new URLSearchParams({ workspace })}`;
+  const [defaults, setDefaults] = useState<SourcePolicy | null>(null);
+  const [allow, setAllow] = useState("");
+  const [allowOnly, setAllowOnly] = useState(false);
+  const [block, setBlock] = useState("");
+  const [blockCategories, setBlockCategories] = useState<SourceCategory[]>([]);
+  const [minTier, setMinTier] = useState<CredibilityTier>("low");
+  const [domains, setDomains] = useState<SourceDomainRule[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyPolicy = useCallback((policy: SourcePolicy) => {
+    setAllow(policy.allow.join(", "));
+    setAllowOnly(policy.allowOnly);
+    setBlock(policy.block.join(", "));
+    setBlockCategories(policy.blockCategories);
+    setMinTier(policy.minTier);
+    setDomains(policy.domains);
+  }, []);
+
+  useEffect(() => {
+    if (!validWorkspace) return;
+    setStatus(null);
+    setError(null);
+    const load = async () => {
+      const response = await fetch(policyUrl);
+      if (!response.ok) {
+        setError(await readError(response, "Unable to load the source policy."));
+        return;
+      }
+      const payload = (await response.json()) as PolicyPayload;
+      setDefaults(payload.defaults);
+      applyPolicy(payload.policy);
+    };
+    load().catch((err) =>
+      setError(err instanceof Error ? err.message : "Unable to load the source policy.")
+    );
+  }, [applyPolicy, policyUrl, validWorkspace]);
+
+  const toggleCategory = (category: SourceCategory) =>
+    setBlockCategories((prev) =>
+      prev.includes(category) ? prev.filter((entry) => entry !== category) : [...prev, category]
+    );
+
+  const updateRule = (index: number, changes: Partial<SourceDomainRule>) =>
+    setDomains((prev) =>
+      prev.map((rule, position) => (position === index ? { ...rule, ...changes } : rule))
+    );
+
+  const savePolicy = useCallback(async () => {
+    setSaving(true);
+    setError(null);
+    setStatus(null);
+    try {
+      const response = await fetch(policyUrl, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          allow: splitDomains(allow),
+          allowOnly,
+          block: splitDomains(block),
+          blockCategories,
+          minTier,
+          domains: domains.filter((rule) => rule.domain.trim()),
+        }),
+      });
+      if (!response.ok) {
+        setError(await readError(response, "Unable to save the source policy."));
+        return;
+      }
+      const payload = (await response.json()) as { policy: SourcePolicy };
+      applyPolicy(payload.policy);
+      setStatus("Saved. The policy applies to the next retrieval.");
+    } finally {
+      setSaving(false);
+    }
+  }, [allow, allowOnly, applyPolicy, block, blockCategories, domains, minTier, policyUrl]);
+
+  return (
+    <section className="px-6 pb-16 md:px-12">
+      <motion.div
+        className="mx-auto max-w-6xl space-y-6"
+        initial="hidden"
+        animate="visible"
+        variants={staggerChildren}
+      >
+        <motion.div variants={fadeInUp}>
+          <Card className="glass-panel">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <ShieldCheck className="h-5 w-5 text-emerald-300" />
+                Source Policy
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Decide which sources the mood radar and creator radar may use. Blocklisted
+                domains are always dropped; allowlisted ones skip category and tier checks.
+                Each workspace keeps its own policy.
+              </p>
+              <WorkspaceInput value={workspaceInput} onChange={onWorkspaceChange} />
+              {validWorkspace ? null : (
+                <p className="text-xs text-rose-300">
+                  Workspace names use letters, digits, dashes or underscores.
+                </p>
+              )}
+            </CardHeader>
+            <CardContent className="grid gap-5 md:grid-cols-2">
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-wider text-white/60">
+                  Allowlist
+                </label>
+                <Input
+                  placeholder="reuters.com, who.int"
+                  value={allow}
+                  onChange={(event) => setAllow(event.target.value)}
+                />
+                <label className="flex items-center gap-2 text-sm text-white/70">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 accent-sky-400"
+                    checked={allowOnly}
+                    onChange={(event) => setAllowOnly(event.target.checked)}
+                  />
+                  Only use allowlisted domains
+                </label>
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-wider text-white/60">
+                  Blocklist
+                </label>
+                <Input
+                  placeholder="x.com, reddit.com"
+                  value={block}
+                  onChange={(event) => setBlock(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-wider text-white/60">
+                  Excluded categories
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {SOURCE_CATEGORIES.map((category) => (
+                    <button
+                      key={category}
+                      type="button"
+                      onClick={() => toggleCategory(category)}
+                      className={cn(
+                        "rounded-full border border-white/10 px-3 py-1 text-xs text-white/70 transition",
+                        blockCategories.includes(category) &&
+                          "border-rose-300/40 bg-rose-400/20 text-rose-100"
+                      )}
+                    >
+                      {category}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-wider text-white/60">
+                  Minimum credibility tier
+                </label>
+                <Select value={minTier} onValueChange={(value) => setMinTier(value as CredibilityTier)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CREDIBILITY_TIERS.map((tier) => (
+                      <SelectItem key={tier} value={tier}>
+                        {tier}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+            <CardContent className="space-y-3">
+              <div>
+                <p className="text-sm font-semibold text-white">Domain rules</p>
+                <p className="text-xs text-white/50">
+                  Override the detected category or credibility tier for a domain and its
+                  subdomains.
+                </p>
+              </div>
+              {domains.map((rule, index) => (
+                <div key={index} className="grid gap-2 md:grid-cols-[1fr_10rem_10rem_auto]">
+                  <Input
+                    placeholder="example.com"
+                    value={rule.domain}
+                    onChange={(event) => updateRule(index, { domain: event.target.value })}
+                  />
+                  <Select
+                    value={rule.category ?? AUTO}
+                    onValueChange={(value) =>
+                      updateRule(index, {
+                        category: value === AUTO ? undefined : (value as SourceCategory),
+                      })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTO}>Detected category</SelectItem>
+                      {SOURCE_CATEGORIES.map((category) => (
+                        <SelectItem key={category} value={category}>
+                          {category}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={rule.tier ?? AUTO}
+                    onValueChange={(value) =>
+                      updateRule(index, {
+                        tier: value === AUTO ? undefined : (value as CredibilityTier),
+                      })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTO}>Detected tier</SelectItem>
+                      {CREDIBILITY_TIERS.map((tier) => (
+                        <SelectItem key={tier} value={tier}>
+                          {tier}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() =>
+                      setDomains((prev) => prev.filter((_, position) => position !== index))
+                    }
+                    aria-label="Remove domain rule"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                onClick={() => setDomains((prev) => [...prev, { domain: "" }])}
+              >
+                <Plus className="h-4 w-4" />
+                Add domain rule
+              </Button>
+            </CardContent>
+            <CardContent className="flex flex-wrap items-center gap-4">
+              <Button onClick={savePolicy} disabled={saving || !validWorkspace}>
+                <Save className="h-4 w-4" />
+                Save policy
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={() => defaults && applyPolicy(defaults)}
+                disabled={!defaults}
+              >
+                <RotateCcw className="h-4 w-4" />
+                Reset to defaults
+              </Button>
+              {status ? <span className="text-sm text-emerald-300">{status}</span> : null}
+              {error ? <span className="text-sm text-rose-300">{error}</span> : null}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </motion.div>
+    </section>
+  );
+}
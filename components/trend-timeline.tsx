@@ -0,0 +1,420 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { LineChart, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { fadeInUp, hoverSpring } from "@/lib/motion";
+import type {
+  ClassifiedSnippet,
+  MoodQuery,
+  Snippet,
+  TimelinePoint,
+} from "@/lib/models";
+
+type TrendTimelineProps = {
+  query: MoodQuery | null;
+  refreshKey?: number;
+};
+
+type SnapshotDetail = {
+  id: string;
+  createdAt: string;
+  items: ClassifiedSnippet[];
+  snippets: Snippet[];
+};
+
+const MotionCard = motion(Card);
+
+const WIDTH = 720;
+const HEIGHT = 200;
+const PADDING = { top: 16, right: 16, bottom: 24, left: 36 };
+const MAX_CLUSTER_LINES = 6;
+const PALETTE = [
+  "#fb7185",
+  "#a78bfa",
+  "#38bdf8",
+  "#fbbf24",
+  "#34d399",
+  "#f472b6",
+  "#818cf8",
+  "#2dd4bf",
+  "#fb923c",
+  "#94a3b8",
+];
+
+const plotWidth = WIDTH - PADDING.left - PADDING.right;
+const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+function xAt(index: number, count: number) {
+  return PADDING.left + (count > 1 ? (index / (count - 1)) * plotWidth : plotWidth / 2);
+}
+
+function yAt(value: number, max: number) {
+  return PADDING.top + plotHeight - (max ? (value / max) * plotHeight : 0);
+}
+
+// Keys ordered by their total across the series so the largest layers sit at the bottom.
+function seriesKeys(points: TimelinePoint[], field: "emotions" | "clusters") {
+  const totals = new Map<string, number>();
+  points.forEach((point) =>
+    Object.entries(point[field]).forEach(([key, value]) =>
+      totals.set(key, (totals.get(key) ?? 0) + value)
+    )
+  );
+  return Array.from(totals.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([key]) => key);
+}
+
+function stackedAreas(points: TimelinePoint[], emotions: string[]) {
+  const baselines = points.map(() => 0);
+  return emotions.map((emotion) => {
+    const lower = [...baselines];
+    points.forEach((point, index) => {
+      const total = Object.values(point.emotions).reduce((sum, value) => sum + value, 0);
+      const share = total ? ((point.emotions[emotion] ?? 0) / total) * 100 : 0;
+      baselines[index] += share;
+    });
+    const top = baselines.map(
+      (value, index) => `${xAt(index, points.length)},${yAt(value, 100)}`
+    );
+    const bottom = lower
+      .map((value, index) => `${xAt(index, points.length)},${yAt(value, 100)}`)
+      .reverse();
+    return { emotion, path: `M${[...top, ...bottom].join("L")}Z` };
+  });
+}
+
+function formatTick(value: string) {
+  return new Date(value).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+type ChartFrameProps = {
+  points: TimelinePoint[];
+  max: number;
+  unit: string;
+  selectedId: string | null;
+  onSelect: (point: TimelinePoint) => void;
+  children: React.ReactNode;
+};
+
+function ChartFrame({ points, max, unit, selectedId, onSelect, children }: ChartFrameProps) {
+  const columnWidth = plotWidth / Math.max(points.length, 1);
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-auto w-full" role="img">
+      {[0, 0.5, 1].map((ratio) => (
+        <g key={ratio}>
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={yAt(max * ratio, max)}
+            y2={yAt(max * ratio, max)}
+            stroke="rgba(255,255,255,0.08)"
+          />
+          <text
+            x={PADDING.left - 6}
+            y={yAt(max * ratio, max) + 3}
+            textAnchor="end"
+            fontSize="9"
+            fill="rgba(255,255,255,0.4)"
+          >
+            {Math.round(max * ratio)}
+            {unit}
+          </text>
+        </g>
+      ))}
+      {children}
+      {points.map((point, index) =>
+        point.spike ? (
+          <g key={`spike-${point.snapshotId}`}>
+            <line
+              x1={xAt(index, points.length)}
+              x2={xAt(index, points.length)}
+              y1={PADDING.top}
+              y2={PADDING.top + plotHeight}
+              stroke="#fda4af"
+              strokeDasharray="3 3"
+            />
+            <text
+              x={xAt(index, points.length)}
+              y={PADDING.top - 4}
+              textAnchor="middle"
+              fontSize="9"
+              fill="#fda4af"
+            >
+              ▲ {point.volatility}
+            </text>
+          </g>
+        ) : null
+      )}
+      {points.map((point, index) => (
+        <g key={point.snapshotId}>
+          {index === 0 || index === points.length - 1 || point.spike ? (
+            <text
+              x={xAt(index, points.length)}
+              y={HEIGHT - 6}
+              textAnchor="middle"
+              fontSize="9"
+              fill="rgba(255,255,255,0.4)"
+            >
+              {formatTick(point.at)}
+            </text>
+          ) : null}
+          <rect
+            x={xAt(index, points.length) - columnWidth / 2}
+            y={PADDING.top}
+            width={columnWidth}
+            height={plotHeight}
+            fill={selectedId === point.snapshotId ? "rgba(255,255,255,0.08)" : "transparent"}
+            className="cursor-pointer hover:fill-white/5"
+            onClick={() => onSelect(point)}
+          >
+            <title>
+              {new Date(point.at).toLocaleString()} · {point.snippetCount} snippets
+              {point.published
+                ? ` · published ${new Date(point.published.earliest).toLocaleDateString()}–${new Date(
+                    point.published.latest
+                  ).toLocaleDateString()}`
+                : ""}
+              {point.volatility !== null ? ` · volatility ${point.volatility}` : ""}
+            </title>
+          </rect>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+export function TrendTimeline({ query, refreshKey }: TrendTimelineProps) {
+  const [points, setPoints] = useState<TimelinePoint[]>([]);
+  const [selected, setSelected] = useState<SnapshotDetail | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTimeline = useCallback(async (current: MoodQuery) => {
+    setError(null);
+    try {
+      const params = new URLSearchParams(current);
+      const response = await fetch(`/api/timeline?${params}`);
+      if (!response.ok) {
+        setError("Unable to load timeline.");
+        return;
+      }
+      const payload = (await response.json()) as { points: TimelinePoint[] };
+      setPoints(payload.points);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load timeline.");
+    }
+  }, []);
+
+  useEffect(() => {
+    setPoints([]);
+    setSelected(null);
+    setSelectedId(null);
+    if (query) loadTimeline(query);
+  }, [loadTimeline, query, refreshKey]);
+
+  const selectPoint = useCallback(async (point: TimelinePoint) => {
+    setSelectedId(point.snapshotId);
+    const response = await fetch(`/api/timeline/${point.snapshotId}`);
+    if (!response.ok) {
+      setError("Unable to load snippets for this run.");
+      return;
+    }
+    const payload = (await response.json()) as { snapshot: SnapshotDetail };
+    setSelected(payload.snapshot);
+  }, []);
+
+  const emotions = useMemo(() => seriesKeys(points, "emotions"), [points]);
+  const clusters = useMemo(
+    () => seriesKeys(points, "clusters").slice(0, MAX_CLUSTER_LINES),
+    [points]
+  );
+  const areas = useMemo(() => stackedAreas(points, emotions), [points, emotions]);
+  const maxClusterSize = useMemo(
+    () =>
+      Math.max(
+        1,
+        ...points.flatMap((point) => clusters.map((cluster) => point.clusters[cluster] ?? 0))
+      ),
+    [clusters, points]
+  );
+  const colorOf = (index: number) => PALETTE[index % PALETTE.length];
+
+  const classificationByIndex = useMemo(
+    () => new Map(selected?.items.map((item) => [item.index, item]) ?? []),
+    [selected]
+  );
+
+  if (!query || !points.length) return null;
+
+  return (
+    <motion.div variants={fadeInUp}>
+      <MotionCard className="glass-panel" {...hoverSpring}>
+        <CardHeader className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <LineChart className="h-5 w-5 text-sky-300" />
+              Trend Timeline
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Emotion share and narrative cluster sizes across stored runs of this query.
+              Click a run to see the snippets behind it.
+            </p>
+          </div>
+          <Badge className="bg-white/10 text-white/80">{points.length} runs</Badge>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {points.length < 2 ? (
+            <p className="text-sm text-white/60">
+              Only one run stored so far. Run the same query again to see movement.
+            </p>
+          ) : null}
+          {error ? <p className="text-sm text-rose-300">{error}</p> : null}
+          <div className="space-y-2">
+            <p className="text-xs uppercase tracking-wider text-white/50">Emotion share</p>
+            <ChartFrame
+              points={points}
+              max={100}
+              unit="%"
+              selectedId={selectedId}
+              onSelect={selectPoint}
+            >
+              {areas.map((area, index) => (
+                <path
+                  key={area.emotion}
+                  d={area.path}
+                  fill={colorOf(index)}
+                  fillOpacity={0.55}
+                  stroke={colorOf(index)}
+                  strokeWidth={1}
+                />
+              ))}
+            </ChartFrame>
+            <div className="flex flex-wrap gap-3 text-xs text-white/70">
+              {emotions.map((emotion, index) => (
+                <span key={emotion} className="flex items-center gap-1">
+                  <span
+                    className="h-2 w-2 rounded-full"
+                    style={{ backgroundColor: colorOf(index) }}
+                  />
+                  {emotion}
+                </span>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <p className="text-xs uppercase tracking-wider text-white/50">Cluster size</p>
+            <ChartFrame
+              points={points}
+              max={maxClusterSize}
+              unit=""
+              selectedId={selectedId}
+              onSelect={selectPoint}
+            >
+              {clusters.map((cluster, index) => (
+                <g key={cluster}>
+                  <polyline
+                    points={points
+                      .map(
+                        (point, pointIndex) =>
+                          `${xAt(pointIndex, points.length)},${yAt(point.clusters[cluster] ?? 0, maxClusterSize)}`
+                      )
+                      .join(" ")}
+                    fill="none"
+                    stroke={colorOf(index)}
+                    strokeWidth={2}
+                  />
+                  {points.map((point, pointIndex) =>
+                    point.clusters[cluster] ? (
+                      <circle
+                        key={point.snapshotId}
+                        cx={xAt(pointIndex, points.length)}
+                        cy={yAt(point.clusters[cluster], maxClusterSize)}
+                        r={3}
+                        fill={colorOf(index)}
+                      />
+                    ) : null
+                  )}
+                </g>
+              ))}
+            </ChartFrame>
+            <div className="flex flex-wrap gap-3 text-xs text-white/70">
+              {clusters.map((cluster, index) => (
+                <span key={cluster} className="flex items-center gap-1">
+                  <span
+                    className="h-2 w-2 rounded-full"
+                    style={{ backgroundColor: colorOf(index) }}
+                  />
+                  {cluster}
+                </span>
+              ))}
+            </div>
+          </div>
+          {selected ? (
+            <div className="space-y-3 rounded-2xl border border-white/10 bg-white/5 p-4">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex flex-wrap items-center gap-2 text-sm text-white">
+                  <span className="font-semibold">
+                    Run of {new Date(selected.createdAt).toLocaleString()}
+                  </span>
+                  {points
+                    .filter((point) => point.snapshotId === selected.id)
+                    .map((point) =>
+                      point.appearedClusters.length ? (
+                        <span key={point.snapshotId} className="text-xs text-white/50">
+                          New: {point.appearedClusters.join(", ")}
+                        </span>
+                      ) : null
+                    )}
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => {
+                    setSelected(null);
+                    setSelectedId(null);
+                  }}
+                  aria-label="Close snippets"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <ul className="space-y-2 text-xs text-white/70">
+                {selected.snippets.map((snippet, index) => {
+                  const classification = classificationByIndex.get(index);
+                  return (
+                    <li key={`${snippet.url}-${index}`} className="space-y-1">
+                      <a
+                        href={snippet.url}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="block font-medium text-white/90 hover:text-white"
+                      >
+                        {snippet.title}
+                      </a>
+                      <p className="text-white/50">{snippet.snippet}</p>
+                      {classification ? (
+                        <div className="flex flex-wrap gap-2">
+                          <Badge className="bg-white/10 text-[10px] text-white/70">
+                            {classification.emotion}
+                          </Badge>
+                          <Badge className="bg-white/5 text-[10px] text-white/60">
+                            {classification.cluster}
+                          </Badge>
+                        </div>
+                      ) : null}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ) : null}
+        </CardContent>
+      </MotionCard>
+    </motion.div>
+  );
+}
@@ -0,0 +1,393 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { CalendarClock, ChevronDown, Pause, Play, Plus, RefreshCw, Trash2, Zap } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { fadeInUp, staggerChildren } from "@/lib/motion";
+import type { TrendPoint, Watchlist } from "@/lib/models";
+
+type WatchlistKind = Watchlist["kind"];
+
+const emptyFields = {
+  topic: "",
+  region: "",
+  timeWindow: "24 hours",
+  sourceFocus: "News",
+  niche: "",
+  platform: "",
+  audience: "",
+  country: "",
+};
+
+function describeQuery(watchlist: Watchlist) {
+  const query = watchlist.query;
+  return "niche" in query
+    ? [query.niche, query.platform, query.audience, query.country].filter(Boolean).join(" · ")
+    : [query.topic, query.region, query.timeWindow, query.sourceFocus].filter(Boolean).join(" · ");
+}
+
+function topEntry(values: Record<string, number>) {
+  return Object.entries(values).sort((a, b) => b[1] - a[1])[0];
+}
+
+function describePoint(point: TrendPoint) {
+  const emotion = topEntry(point.emotions);
+  const cluster = topEntry(point.clusters);
+  const opportunity = point.topOpportunities[0];
+  return [
+    emotion ? `${emotion[0]} ${emotion[1]}%` : null,
+    cluster ? `${cluster[0]} (${cluster[1]})` : null,
+    opportunity
+      ? `${opportunity.title} ${opportunity.score}${opportunity.recommended ? " ★" : ""}`
+      : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+function formatTime(value?: string | null) {
+  return value ? new Date(value).toLocaleString() : "—";
+}
+
+export function Watchlists() {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [series, setSeries] = useState<Record<string, TrendPoint[]>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [kind, setKind] = useState<WatchlistKind>("mood");
+  const [name, setName] = useState("");
+  const [schedule, setSchedule] = useState("0 8 * * *");
+  const [fields, setFields] = useState(emptyFields);
+
+  const loadWatchlists = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/watchlists");
+      if (!response.ok) {
+        setError("Unable to load watchlists.");
+        return;
+      }
+      const payload = (await response.json()) as { watchlists: Watchlist[] };
+      setWatchlists(payload.watchlists);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load watchlists.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadWatchlists();
+  }, [loadWatchlists]);
+
+  const loadSeries = useCallback(async (id: string) => {
+    const response = await fetch(`/api/watchlists/${id}`);
+    if (!response.ok) return;
+    const payload = (await response.json()) as { series: TrendPoint[] };
+    setSeries((prev) => ({ ...prev, [id]: payload.series }));
+  }, []);
+
+  const replaceWatchlist = useCallback((watchlist: Watchlist) => {
+    setWatchlists((prev) => prev.map((entry) => (entry.id === watchlist.id ? watchlist : entry)));
+  }, []);
+
+  const setField = (key: keyof typeof emptyFields) => (value: string) =>
+    setFields((prev) => ({ ...prev, [key]: value }));
+
+  const addWatchlist = useCallback(async () => {
+    setError(null);
+    const query =
+      kind === "mood"
+        ? {
+            topic: fields.topic,
+            region: fields.region,
+            timeWindow: fields.timeWindow,
+            sourceFocus: fields.sourceFocus,
+          }
+        : {
+            niche: fields.niche,
+            platform: fields.platform,
+            audience: fields.audience,
+            country: fields.country || undefined,
+          };
+    const response = await fetch("/api/watchlists", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ kind, name: name || undefined, schedule, query }),
+    });
+    const payload = (await response.json()) as { watchlist?: Watchlist; error?: string };
+    if (!response.ok || !payload.watchlist) {
+      setError(payload.error ?? "Unable to create watchlist.");
+      return;
+    }
+    setWatchlists((prev) => [...prev, payload.watchlist as Watchlist]);
+    setName("");
+    setFields(emptyFields);
+  }, [fields, kind, name, schedule]);
+
+  const toggleWatchlist = useCallback(
+    async (watchlist: Watchlist) => {
+      const response = await fetch(`/api/watchlists/${watchlist.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled: !watchlist.enabled }),
+      });
+      if (!response.ok) {
+        setError("Unable to update watchlist.");
+        return;
+      }
+      const payload = (await response.json()) as { watchlist: Watchlist };
+      replaceWatchlist(payload.watchlist);
+    },
+    [replaceWatchlist]
+  );
+
+  const runNow = useCallback(
+    async (id: string) => {
+      setRunningId(id);
+      setError(null);
+      try {
+        const response = await fetch(`/api/watchlists/${id}/run`, { method: "POST" });
+        const payload = (await response.json()) as { watchlist?: Watchlist; error?: string };
+        if (!response.ok || !payload.watchlist) {
+          setError(payload.error ?? "Watchlist run failed.");
+          return;
+        }
+        replaceWatchlist(payload.watchlist);
+        await loadSeries(id);
+      } finally {
+        setRunningId(null);
+      }
+    },
+    [loadSeries, replaceWatchlist]
+  );
+
+  const removeWatchlist = useCallback(async (id: string) => {
+    const response = await fetch(`/api/watchlists/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      setError("Unable to delete watchlist.");
+      return;
+    }
+    setWatchlists((prev) => prev.filter((watchlist) => watchlist.id !== id));
+  }, []);
+
+  const toggleExpanded = useCallback(
+    (id: string) => {
+      setExpandedId((current) => (current === id ? null : id));
+      if (!series[id]) loadSeries(id);
+    },
+    [loadSeries, series]
+  );
+
+  const queryInputs: [keyof typeof emptyFields, string, string][] =
+    kind === "mood"
+      ? [
+          ["topic", "Topic", "e.g. AI regulation"],
+          ["region", "Region", "India, USA, EU"],
+          ["timeWindow", "Time window", "24 hours, 7 days"],
+          ["sourceFocus", "Source focus", "News, Blogs"],
+        ]
+      : [
+          ["niche", "Niche", "e.g. AI productivity"],
+          ["platform", "Platform", "YouTube, TikTok"],
+          ["audience", "Target audience", "Founders, students"],
+          ["country", "Country (optional)", "USA, India"],
+        ];
+
+  return (
+    <section className="px-6 pb-16 md:px-12">
+      <motion.div
+        className="mx-auto max-w-6xl space-y-6"
+        initial="hidden"
+        animate="visible"
+        variants={staggerChildren}
+      >
+        <motion.div variants={fadeInUp}>
+          <Card className="glass-panel">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <CalendarClock className="h-5 w-5 text-emerald-300" />
+                New Watchlist
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Rerun a query on a cron schedule (minute hour day month weekday, or @daily)
+                and build a trend series from every run.
+              </p>
+            </CardHeader>
+            <CardContent className="grid gap-5 md:grid-cols-4">
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-wider text-white/60">Radar</label>
+                <Select value={kind} onValueChange={(value) => setKind(value as WatchlistKind)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="mood">Mood radar</SelectItem>
+                    <SelectItem value="analyze">Creator radar</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs uppercase tracking-wider text-white/60">Name</label>
+                <Input
+                  placeholder="Optional"
+                  value={name}
+                  onChange={(event) => setName(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <label className="text-xs uppercase tracking-wider text-white/60">
+                  Schedule
+                </label>
+                <Input
+                  placeholder="0 8 * * *"
+                  value={schedule}
+                  onChange={(event) => setSchedule(event.target.value)}
+                />
+              </div>
+              {queryInputs.map(([key, label, placeholder]) => (
+                <div key={key} className="space-y-2">
+                  <label className="text-xs uppercase tracking-wider text-white/60">
+                    {label}
+                  </label>
+                  <Input
+                    placeholder={placeholder}
+                    value={fields[key]}
+                    onChange={(event) => setField(key)(event.target.value)}
+                  />
+                </div>
+              ))}
+            </CardContent>
+            <CardContent className="flex flex-wrap items-center gap-4">
+              <Button onClick={addWatchlist}>
+                <Plus className="h-4 w-4" />
+                Add watchlist
+              </Button>
+              {error ? <span className="text-sm text-rose-300">{error}</span> : null}
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        <motion.div variants={fadeInUp}>
+          <Card className="glass-panel">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="text-lg">Watchlists</CardTitle>
+              <Button variant="outline" size="sm" onClick={loadWatchlists} disabled={loading}>
+                <RefreshCw className={cn("h-4 w-4", loading && "animate-spin")} />
+                Refresh
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {!loading && !watchlists.length ? (
+                <p className="text-sm text-white/60">No watchlists yet.</p>
+              ) : null}
+              {watchlists.map((watchlist) => (
+                <div
+                  key={watchlist.id}
+                  className="rounded-2xl border border-white/10 bg-white/5 p-4"
+                >
+                  <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+                    <div className="min-w-0 space-y-1">
+                      <p className="truncate text-sm font-semibold text-white">
+                        {watchlist.name}
+                      </p>
+                      <p className="truncate text-xs text-white/50">{describeQuery(watchlist)}</p>
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-white/50">
+                        <Badge className="bg-white/10 text-white/80">
+                          {watchlist.kind === "analyze" ? "Creator radar" : "Mood radar"}
+                        </Badge>
+                        <Badge className="bg-white/10 font-mono text-white/80">
+                          {watchlist.schedule}
+                        </Badge>
+                        {watchlist.enabled ? null : (
+                          <Badge className="bg-amber-400/20 text-amber-200">Paused</Badge>
+                        )}
+                        <span>Next: {formatTime(watchlist.nextRunAt)}</span>
+                        <span>Last: {formatTime(watchlist.lastRunAt)}</span>
+                      </div>
+                      {watchlist.lastError ? (
+                        <p className="text-xs text-rose-300">{watchlist.lastError}</p>
+                      ) : null}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => runNow(watchlist.id)}
+                        disabled={runningId !== null}
+                      >
+                        <Zap className={cn("h-4 w-4", runningId === watchlist.id && "animate-pulse")} />
+                        Run now
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => toggleWatchlist(watchlist)}
+                        aria-label={watchlist.enabled ? "Pause watchlist" : "Resume watchlist"}
+                      >
+                        {watchlist.enabled ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => toggleExpanded(watchlist.id)}
+                        aria-label="Show trend series"
+                      >
+                        <ChevronDown
+                          className={cn(
+                            "h-4 w-4 transition-transform",
+                            expandedId === watchlist.id && "rotate-180"
+                          )}
+                        />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => removeWatchlist(watchlist.id)}
+                        aria-label="Delete watchlist"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {expandedId === watchlist.id ? (
+                    <div className="mt-4 space-y-2 border-t border-white/10 pt-3 text-xs text-white/70">
+                      {!series[watchlist.id]?.length ? (
+                        <p className="text-white/50">No data points yet.</p>
+                      ) : (
+                        [...series[watchlist.id]]
+                          .reverse()
+                          .slice(0, 10)
+                          .map((point) => (
+                            <div key={point.at} className="flex flex-wrap justify-between gap-3">
+                              <span className="text-white/50">{formatTime(point.at)}</span>
+                              <span>{describePoint(point) || "No results"}</span>
+                            </div>
+                          ))
+                      )}
+                    </div>
+                  ) : null}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </motion.div>
+    </section>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Building2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { DEFAULT_WORKSPACE } from "@/lib/contracts";
+
+const STORAGE_KEY = "mood-radar:workspace";
+
+// Selects whose source policy runs use; the choice is kept per browser.
+export function useWorkspace() {
+  const [workspace, setWorkspaceState] = useState(DEFAULT_WORKSPACE);
+
+  useEffect(() => {
+    setWorkspaceState(window.localStorage.getItem(STORAGE_KEY) || DEFAULT_WORKSPACE);
+  }, []);
+
+  const setWorkspace = useCallback((value: string) => {
+    setWorkspaceState(value);
+    window.localStorage.setItem(STORAGE_KEY, value);
+  }, []);
+
+  return [workspace, setWorkspace] as const;
+}
+
+type WorkspaceInputProps = {
+  value: string;
+  onChange: (value: string) => void;
+};
+
+export function WorkspaceInput({ value, onChange }: WorkspaceInputProps) {
+  return (
+    <label className="flex items-center gap-2 text-xs text-white/60">
+      <Building2 className="h-4 w-4" />
+      <Input
+        placeholder={DEFAULT_WORKSPACE}
+        value={value}
+        onChange={(event) => onChange(event.target.value.toLowerCase())}
+        className="h-9 w-44"
+      />
+    </label>
+  );
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { evaluateMoodRules } from "@/lib/alerts";
+import type { AlertRule, NarrativeCluster } from "@/lib/models";
+import { computeVolatility } from "@/lib/volatility";
+
+const query = { topic: "transit fares", region: "Global", timeWindow: "7 days", sourceFocus: "" };
+
+const rule: AlertRule = {
+  id: "rule-1",
+  name: "New narratives",
+  enabled: true,
+  scope: "",
+  condition: { type: "new_cluster", minSize: 2 },
+  createdAt: "2026-10-01T00:00:00.000Z",
+  updatedAt: "2026-10-01T00:00:00.000Z",
+};
+
+function cluster(id: string, label: string, size = 3): NarrativeCluster {
+  return { id, label, size, exampleHeadlines: [] };
+}
+
+describe("evaluateMoodRules new_cluster", () => {
+  const previous = { createdAt: "2026-10-18T00:00:00.000Z", emotions: [], clusters: [] };
+
+  it("matches raw clusters to appeared canonical clusters by registry ID", () => {
+    // The registry renamed the cluster, so canonical and raw labels differ.
+    const volatility = computeVolatility(previous, {
+      emotions: [],
+      clusters: [cluster("c1", "Fare hikes")],
+    });
+    const matches = evaluateMoodRules([rule], query, {
+      emotions: [],
+      clusters: [cluster("c1", "Ticket prices going up")],
+      volatility,
+    });
+    expect(matches).toHaveLength(1);
+    expect(matches[0].message).toContain("Ticket prices going up");
+  });
+
+  it("ignores clusters that were already present or are too small", () => {
+    const volatility = computeVolatility(
+      { ...previous, clusters: [cluster("c1", "Fare hikes")] },
+      { emotions: [], clusters: [cluster("c1", "Fare hikes"), cluster("c2", "Strikes", 1)] }
+    );
+    const matches = evaluateMoodRules([rule], query, {
+      emotions: [],
+      clusters: [cluster("c1", "Fare hikes"), cluster("c2", "Strikes", 1)],
+      volatility,
+    });
+    expect(matches).toEqual([]);
+  });
+});
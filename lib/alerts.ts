@@ -0,0 +1,232 @@
+import type { AlertRuleInput, AlertRuleUpdate, AnalyzePayload, OpportunityScore } from "@/lib/contracts";
+import { normalizeEmotion } from "@/lib/emotions";
+import type {
+  AlertDelivery,
+  AlertEvent,
+  AlertMatch,
+  AlertRule,
+  MoodQuery,
+  MoodResult,
+} from "@/lib/models";
+import { readJsonFile, updateJsonFile } from "@/lib/store";
+import { clusterIdentity } from "@/lib/volatility";
+import { deliverWebhook } from "@/lib/webhooks";
+
+const RULES_FILE = "alert-rules";
+const DELIVERIES_FILE = "alert-deliveries";
+const MAX_DELIVERIES = 200;
+
+function describeCondition(condition: AlertRule["condition"]) {
+  if (condition.type === "emotion_share") {
+    return `${normalizeEmotion(condition.emotion)} share above ${condition.threshold}%`;
+  }
+  if (condition.type === "new_cluster") {
+    return `New cluster with size ≥ ${condition.minSize}`;
+  }
+  return `Opportunity score ≥ ${condition.minScore}${condition.requireRecommended ? " and recommended" : ""}`;
+}
+
+export async function listAlertRules() {
+  return readJsonFile<AlertRule[]>(RULES_FILE, []);
+}
+
+export async function createAlertRule(input: AlertRuleInput) {
+  const now = new Date().toISOString();
+  const rule: AlertRule = {
+    ...input,
+    id: crypto.randomUUID(),
+    name: input.name || describeCondition(input.condition),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await updateJsonFile<AlertRule[]>(RULES_FILE, [], (rules) => [...rules, rule]);
+  return rule;
+}
+
+export async function updateAlertRule(id: string, update: AlertRuleUpdate) {
+  let updated: AlertRule | null = null;
+  await updateJsonFile<AlertRule[]>(RULES_FILE, [], (rules) =>
+    rules.map((rule) => {
+      if (rule.id !== id) return rule;
+      updated = { ...rule, ...update, updatedAt: new Date().toISOString() };
+      return updated;
+    })
+  );
+  return updated as AlertRule | null;
+}
+
+export async function deleteAlertRule(id: string) {
+  let removed = false;
+  await updateJsonFile<AlertRule[]>(RULES_FILE, [], (rules) => {
+    const remaining = rules.filter((rule) => rule.id !== id);
+    removed = remaining.length !== rules.length;
+    return remaining;
+  });
+  return removed;
+}
+
+export async function listAlertDeliveries() {
+  const deliveries = await readJsonFile<AlertDelivery[]>(DELIVERIES_FILE, []);
+  return deliveries.slice().reverse();
+}
+
+function inScope(rule: AlertRule, subject: string) {
+  return !rule.scope || subject.toLowerCase().includes(rule.scope.toLowerCase());
+}
+
+export function evaluateMoodRules(
+  rules: AlertRule[],
+  query: MoodQuery,
+  result: Pick<MoodResult, "emotions" | "clusters" | "volatility">
+) {
+  const matches: AlertMatch[] = [];
+  rules
+    .filter((rule) => rule.enabled && inScope(rule, query.topic))
+    .forEach((rule) => {
+      const { condition } = rule;
+      if (condition.type === "emotion_share") {
+        const emotion = normalizeEmotion(condition.emotion);
+        const share = result.emotions.find((entry) => entry.emotion === emotion)?.percentage ?? 0;
+        if (share > condition.threshold) {
+          matches.push({
+            ruleId: rule.id,
+            ruleName: rule.name,
+            type: condition.type,
+            message: `${emotion} share is ${share}% (threshold ${condition.threshold}%) for "${query.topic}"`,
+            value: share,
+          });
+        }
+      }
+      if (condition.type === "new_cluster" && result.volatility) {
+        // Volatility compares canonical clusters, so match on registry IDs
+        // rather than labels, which may have been renamed or merged since.
+        const appeared = new Set(result.volatility.appearedClusterIds ?? []);
+        result.clusters
+          .filter(
+            (cluster) =>
+              appeared.has(clusterIdentity(cluster)) && cluster.size >= condition.minSize
+          )
+          .forEach((cluster) =>
+            matches.push({
+              ruleId: rule.id,
+              ruleName: rule.name,
+              type: condition.type,
+              message: `New cluster "${cluster.label}" appeared with ${cluster.size} snippets for "${query.topic}"`,
+              value: cluster.size,
+            })
+          );
+      }
+    });
+  return matches;
+}
+
+export function evaluateAnalyzeRules(
+  rules: AlertRule[],
+  inputs: AnalyzePayload,
+  scored: OpportunityScore[]
+) {
+  const matches: AlertMatch[] = [];
+  rules
+    .filter((rule) => rule.enabled && inScope(rule, inputs.niche))
+    .forEach((rule) => {
+      const { condition } = rule;
+      if (condition.type !== "opportunity_score") return;
+      scored
+        .filter(
+          (entry) =>
+            entry.score >= condition.minScore &&
+            (!condition.requireRecommended || entry.recommended)
+        )
+        .forEach((entry) =>
+          matches.push({
+            ruleId: rule.id,
+            ruleName: rule.name,
+            type: condition.type,
+            message: `"${entry.title}" scored ${entry.score}${entry.recommended ? " (recommended)" : ""} for "${inputs.niche}"`,
+            value: entry.score,
+          })
+        );
+    });
+  return matches;
+}
+
+export async function deliverAlert(event: AlertEvent) {
+  const url = process.env.ALERT_WEBHOOK_URL || null;
+  const result = url
+    ? await deliverWebhook(url, event, process.env.ALERT_WEBHOOK_SECRET)
+    : { ok: false, error: "ALERT_WEBHOOK_URL is not configured." };
+  const delivery: AlertDelivery = {
+    eventId: event.id,
+    attemptedAt: new Date().toISOString(),
+    url,
+    matches: event.matches,
+    ...result,
+  };
+  await updateJsonFile<AlertDelivery[]>(DELIVERIES_FILE, [], (deliveries) =>
+    [...deliveries, delivery].slice(-MAX_DELIVERIES)
+  );
+  return delivery;
+}
+
+function alertEvent(
+  source: AlertEvent["source"],
+  query: AlertEvent["query"],
+  matches: AlertMatch[]
+): AlertEvent {
+  return {
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    source,
+    query,
+    matches,
+  };
+}
+
+export async function notifyMoodResult(
+  query: MoodQuery,
+  result: Pick<MoodResult, "emotions" | "clusters" | "volatility">
+) {
+  const matches = evaluateMoodRules(await listAlertRules(), query, result);
+  if (!matches.length) return null;
+  return deliverAlert(alertEvent("mood", query, matches));
+}
+
+export async function notifyAnalyzeScores(inputs: AnalyzePayload, scored: OpportunityScore[]) {
+  const matches = evaluateAnalyzeRules(await listAlertRules(), inputs, scored);
+  if (!matches.length) return null;
+  return deliverAlert(alertEvent("analyze", inputs, matches));
+}
+
+export async function sendTestAlert() {
+  return deliverAlert(
+    alertEvent("test", null, [
+      {
+        ruleId: "test",
+        ruleName: "Test alert",
+        type: "emotion_share",
+        message: "This is a test delivery from Public Mood Radar.",
+        value: 0,
+      },
+    ])
+  );
+}
+
+const INBOX_FILE = "webhook-inbox";
+const MAX_INBOX = 50;
+
+export type ReceivedWebhook = {
+  receivedAt: string;
+  verified: boolean;
+  payload: unknown;
+};
+
+export async function recordReceivedWebhook(entry: ReceivedWebhook) {
+  await updateJsonFile<ReceivedWebhook[]>(INBOX_FILE, [], (inbox) =>
+    [...inbox, entry].slice(-MAX_INBOX)
+  );
+}
+
+export async function listReceivedWebhooks() {
+  const inbox = await readJsonFile<ReceivedWebhook[]>(INBOX_FILE, []);
+  return inbox.slice().reverse();
+}
@@ -0,0 +1,344 @@
+import type { z } from "zod";
+import {
+  describeIssues,
+  parseStageData,
+  stageCSchema,
+  stageDSchema,
+  stageESchema,
+  stageKeySchema,
+  type AnalyzePayload,
+  type PipelineSummary,
+  type Signal,
+  type StageData,
+  type StageEvent,
+  type StageKey,
+} from "@/lib/contracts";
+import { notifyAnalyzeScores } from "@/lib/alerts";
+import { withCache, type CacheStage } from "@/lib/cache";
+import { enforceTimeWindow } from "@/lib/dates";
+import { dedupeItems } from "@/lib/dedup";
+import { PipelineError, toPipelineError } from "@/lib/pipeline-errors";
+import { rankSuggestions } from "@/lib/ranking";
+import { saveRun } from "@/lib/runs";
+import { computeSourceMetrics } from "@/lib/source-metrics";
+import { applySourcePolicy, describeSourcePolicy, getSourcePolicy } from "@/lib/source-policy";
+import type { RunError, StageTiming } from "@/lib/models";
+import { getReasoningProvider } from "@/lib/reasoning";
+import { getRetrievalProvider } from "@/lib/retrieval";
+
+async function runRetrieval(payload: AnalyzePayload, workspace?: string) {
+  const policy = await getSourcePolicy(workspace);
+  const policyHint = describeSourcePolicy(policy);
+  const prompt = `Find current trends, audience signals, and public discussions about "${payload.niche}" on "${payload.platform}". Target audience: "${payload.audience}".${payload.country ? ` Focus on ${payload.country}.` : ""}${policyHint ? ` ${policyHint}` : ""}\nReturn ONLY a strict JSON array of items with fields:\n[\n  {\n    "title": "string",\n    "snippet": "string",\n    "url": "string",\n    "publishedAt": "ISO date string"\n  }\n]\nNo extra text, no markdown.`;
+
+  const provider = getRetrievalProvider();
+  try {
+    const result = await withCache(
+      { stage: "A", provider, prompt, refresh: payload.refresh },
+      () => provider.retrieve({ kind: "creator", prompt, subject: payload.niche })
+    );
+    const { kept, report } = applySourcePolicy(result.value, policy);
+    // Creator runs have no time window, so old items stay; dates are normalized
+    // and items dated more than a day ahead (misparses) are still dropped.
+    const { kept: dated, report: dateWindow } = enforceTimeWindow(kept);
+    const { kept: signals, report: dedup } = dedupeItems(dated);
+    return {
+      signals,
+      sourcePolicy: report,
+      dateWindow,
+      dedup,
+      sourceMetrics: computeSourceMetrics(signals, policy),
+      cached: result.cached,
+    };
+  } catch (error) {
+    throw toPipelineError(error);
+  }
+}
+
+async function runMino(
+  stage: CacheStage,
+  goal: string,
+  refresh?: boolean,
+  onProgress?: (message: string) => void,
+  schema?: z.ZodTypeAny
+) {
+  const provider = getReasoningProvider();
+  const accept = schema ? (value: unknown) => schema.safeParse(value).success : undefined;
+  try {
+    return await withCache({ stage, provider, prompt: goal, refresh, accept }, () =>
+      provider.complete({ prompt: goal, onProgress })
+    );
+  } catch (error) {
+    throw toPipelineError(error);
+  }
+}
+
+const MAX_REPAIR_ATTEMPTS = 1;
+
+async function runValidatedMino<T extends z.ZodTypeAny>(
+  stage: "C" | "D" | "E",
+  goal: string,
+  schema: T,
+  send: (event: StageEvent) => void,
+  refresh?: boolean
+): Promise<{ data: z.output<T>; cached: boolean }> {
+  let prompt = goal;
+  let cached = true;
+  for (let attempt = 0; ; attempt += 1) {
+    const result = await runMino(
+      stage,
+      prompt,
+      refresh,
+      (message) => send({ stage, status: "progress", message: `Stage ${stage}: ${message}` }),
+      schema
+    );
+    const raw = result.value;
+    cached = cached && result.cached;
+    const validation = schema.safeParse(raw);
+    if (validation.success) return { data: validation.data, cached };
+
+    const issues = describeIssues(validation.error);
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      throw new PipelineError(
+        `Stage ${stage} output failed schema validation`,
+        "schema",
+        issues
+      );
+    }
+    send({
+      stage,
+      status: "progress",
+      message: `Stage ${stage}: ${issues.length} validation issues, retrying with repair prompt…`,
+      data: { validation: issues },
+    });
+    prompt = `${goal}\nYour previous response did not match the required JSON schema.\nIssues:\n${issues
+      .map((issue) => `- ${issue.path}: ${issue.message}`)
+      .join("\n")}\nPrevious response:\n${JSON.stringify(raw)}\nReturn the corrected JSON ONLY.`;
+  }
+}
+
+export function resumeOutputs(startFrom: StageKey, previous: Partial<Record<StageKey, unknown>>) {
+  const prior: Partial<StageData> = {};
+  const missing: StageKey[] = [];
+  const stages = stageKeySchema.options;
+  stages.slice(0, stages.indexOf(startFrom)).forEach((stage) => {
+    const parsed = parseStageData(stage, previous[stage]);
+    if (parsed.success) {
+      Object.assign(prior, { [stage]: parsed.data });
+    } else {
+      missing.push(stage);
+    }
+  });
+  return { prior, missing };
+}
+
+export type AnalyzePipelineOptions = {
+  prior?: Partial<StageData>;
+  refresh?: boolean;
+  // Whose source policy filters stage A.
+  workspace?: string;
+};
+
+export async function runAnalyzePipeline(
+  inputs: AnalyzePayload,
+  { prior = {}, refresh, workspace }: AnalyzePipelineOptions,
+  emit: (event: StageEvent) => void = () => undefined
+) {
+  const summary: PipelineSummary = { completed: [] };
+  const outputs: Partial<StageData> = {};
+  const timings: StageTiming[] = [];
+  const errors: RunError[] = [];
+  let currentStage: StageKey = "A";
+
+  const finishTiming = (stage: StageKey, status: StageTiming["status"]) => {
+    const timing = timings.find((entry) => entry.stage === stage);
+    if (!timing) return;
+    const completedAt = new Date();
+    timing.status = status;
+    timing.completedAt = completedAt.toISOString();
+    timing.durationMs = completedAt.getTime() - Date.parse(timing.startedAt);
+  };
+
+  const send = (event: StageEvent) => {
+    if (event.status === "start") {
+      currentStage = event.stage;
+      timings.push({
+        stage: event.stage,
+        startedAt: new Date().toISOString(),
+        status: "running",
+      });
+    }
+    if (event.status === "complete") {
+      summary.completed.push(event.stage);
+      finishTiming(event.stage, "complete");
+    }
+    if (event.status === "error") finishTiming(event.stage, "error");
+    emit(event);
+  };
+  const complete = <K extends StageKey>(
+    stage: K,
+    message: string,
+    data: StageData[K],
+    cached?: boolean
+  ) => {
+    outputs[stage] = data;
+    send({
+      stage,
+      status: "complete",
+      message: cached ? `${message} (cached)` : message,
+      cached,
+      data,
+    });
+  };
+
+  const reuse = <K extends StageKey>(stage: K): StageData[K] | undefined => {
+    const data = prior[stage];
+    if (!data) return undefined;
+    currentStage = stage;
+    // Reopened runs derive stage status from timings, so reused stages need one too.
+    timings.push({ stage, startedAt: new Date().toISOString(), status: "running" });
+    complete(stage, `Stage ${stage} reused from previous run`, data);
+    return data;
+  };
+
+  try {
+    let stageA = reuse("A");
+    if (!stageA) {
+      send({
+        stage: "A",
+        status: "start",
+        message: "Stage A: Fetching live signals…",
+      });
+      const { signals, cached, ...reports } = await runRetrieval({ ...inputs, refresh }, workspace);
+      stageA = { signals, ...reports };
+      const dropped = reports.sourcePolicy.filtered.length;
+      complete(
+        "A",
+        `Stage A complete: ${signals.length} signals${dropped ? ` (${dropped} filtered by source policy)` : ""}`,
+        stageA,
+        cached
+      );
+    }
+
+    let stageB = reuse("B");
+    if (!stageB) {
+      send({
+        stage: "B",
+        status: "start",
+        message: "Stage B: Normalizing signals…",
+      });
+      stageB = {
+        normalized: stageA.signals.map((signal) => ({
+          ...signal,
+          title: signal.title.trim(),
+          snippet: signal.snippet.trim(),
+        })),
+      };
+      complete("B", "Stage B complete: Signals normalized", stageB);
+    }
+    const { normalized } = stageB;
+
+    let stageC = reuse("C");
+    if (!stageC) {
+      send({
+        stage: "C",
+        status: "start",
+        message: "Stage C: Extracting opportunities…",
+      });
+      const opportunitiesGoal = `You are analyzing creator opportunities. Using the signals below, return JSON ONLY:\n{\n  "opportunities": [\n    {\n      "title": "string",\n      "description": "string",\n      "platformFit": "string",\n      "audienceAngle": "string",\n      "evidenceIndexes": [number],\n      "newness": "string"\n    }\n  ],\n  "gaps": [\n    {\n      "gap": "string",\n      "whyNow": "string",\n      "suggestedContent": "string"\n    }\n  ]\n}\nSignals:\n${JSON.stringify({ niche: inputs.niche, platform: inputs.platform, audience: inputs.audience, country: inputs.country, signals: normalized })}\nNo markdown, no extra keys.`;
+      const result = await runValidatedMino(
+        "C",
+        opportunitiesGoal,
+        stageCSchema,
+        send,
+        refresh
+      );
+      stageC = { opportunities: result.data.opportunities, gaps: result.data.gaps };
+      complete("C", "Stage C complete: Opportunities extracted", stageC, result.cached);
+    }
+
+    let stageD = reuse("D");
+    if (!stageD) {
+      send({
+        stage: "D",
+        status: "start",
+        message: "Stage D: Scoring opportunity impact…",
+      });
+      const scoringGoal = `Score the opportunity list. Return JSON ONLY:\n{\n  "scored": [\n    {\n      "title": "string",\n      "score": number,\n      "risk": "string",\n      "effort": "string",\n      "rationale": "string",\n      "recommended": boolean\n    }\n  ]\n}\nInput:\n${JSON.stringify(stageC)}\nNo markdown, no extra keys.`;
+      const result = await runValidatedMino(
+        "D",
+        scoringGoal,
+        stageDSchema,
+        send,
+        refresh
+      );
+      const suggestions = rankSuggestions(
+        inputs.niche,
+        stageC.opportunities.map((opportunity) => ({
+          title: opportunity.title,
+          summary: opportunity.description,
+          sources: opportunity.evidenceIndexes
+            .map((index) => normalized[index])
+            .filter(Boolean),
+          notes: [opportunity.platformFit, opportunity.audienceAngle].filter(Boolean),
+        }))
+      );
+      stageD = { scored: result.data.scored, suggestions };
+      complete("D", "Stage D complete: Scores generated", stageD, result.cached);
+      if (!result.cached) {
+        notifyAnalyzeScores(inputs, stageD.scored).catch((error) =>
+          console.error("Alert evaluation failed", error)
+        );
+      }
+    }
+
+    send({
+      stage: "E",
+      status: "start",
+      message: "Stage E: Generating creator playbook…",
+    });
+    const playbookGoal = `Generate a creator playbook based on scored opportunities. Return JSON ONLY:\n{\n  "playbook": {\n    "positioning": "string",\n    "contentPillars": ["string"],\n    "weeklyPlan": ["string"],\n    "monetizationIdeas": ["string"],\n    "collaborationTargets": ["string"],\n    "watchouts": ["string"]\n  }\n}\nInput:\n${JSON.stringify({ opportunities: stageC, scored: { scored: stageD.scored } })}\nNo markdown, no extra keys.`;
+    const stageE = await runValidatedMino(
+      "E",
+      playbookGoal,
+      stageESchema,
+      send,
+      refresh
+    );
+    complete(
+      "E",
+      "Stage E complete: Playbook ready",
+      { playbook: stageE.data.playbook },
+      stageE.cached
+    );
+  } catch (error) {
+    const failure = toPipelineError(error);
+    summary.failed = currentStage;
+    summary.code = failure.code;
+    errors.push({ stage: currentStage, message: failure.message, code: failure.code });
+    send({
+      stage: currentStage,
+      status: "error",
+      code: failure.code,
+      message: `Stage ${currentStage} failed: ${failure.message}`,
+      data: failure.details ? { details: failure.details } : undefined,
+    });
+  } finally {
+    try {
+      const run = await saveRun({ kind: "analyze", inputs, outputs, timings, errors });
+      summary.runId = run.id;
+    } catch (error) {
+      console.error("Unable to save analyze run", error);
+    }
+    send({
+      stage: currentStage,
+      status: "summary",
+      message: summary.failed
+        ? `Pipeline stopped at stage ${summary.failed}; ${summary.completed.length} stages completed`
+        : "Pipeline complete",
+      data: summary,
+    });
+  }
+
+  return { summary, outputs };
+}
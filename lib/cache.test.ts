@@ -0,0 +1,69 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { cacheKey, snippetCacheKey, withCache } from "@/lib/cache";
+
+const provider = { name: "test" };
+const isValid = (value: unknown) => (value as { ok?: boolean })?.ok === true;
+
+describe("withCache", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "cache-test-"));
+    process.env.DATA_DIR = dir;
+  });
+
+  afterEach(async () => {
+    delete process.env.DATA_DIR;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("replays stored values until refresh is requested", async () => {
+    const request = { stage: "C" as const, provider, prompt: "p" };
+    expect(await withCache(request, async () => 1)).toEqual({ value: 1, cached: false });
+    expect(await withCache(request, async () => 2)).toMatchObject({ value: 1, cached: true });
+    expect(await withCache({ ...request, refresh: true }, async () => 3)).toEqual({
+      value: 3,
+      cached: false,
+    });
+  });
+
+  it("does not store values rejected by accept", async () => {
+    const request = { stage: "D" as const, provider, prompt: "p", accept: isValid };
+    expect(await withCache(request, async () => ({ ok: false }))).toEqual({
+      value: { ok: false },
+      cached: false,
+    });
+    expect(await withCache(request, async () => ({ ok: true }))).toEqual({
+      value: { ok: true },
+      cached: false,
+    });
+    expect(await withCache(request, async () => ({ ok: false }))).toMatchObject({
+      value: { ok: true },
+      cached: true,
+    });
+  });
+
+  it("ignores stored entries that no longer pass accept", async () => {
+    const request = { stage: "E" as const, provider, prompt: "p" };
+    await withCache(request, async () => ({ ok: false }));
+    expect(
+      await withCache({ ...request, accept: isValid }, async () => ({ ok: true }))
+    ).toEqual({ value: { ok: true }, cached: false });
+  });
+
+  it("keys snippets by publication day so renormalized dates still hit", () => {
+    const snippet = { title: "T", snippet: "S", url: "https://a.com/" };
+    const key = (publishedAt: string) =>
+      cacheKey({
+        stage: "reason",
+        provider,
+        prompt: publishedAt,
+        key: snippetCacheKey([{ ...snippet, publishedAt }]),
+      });
+    expect(key("2026-10-19T09:15:02.120Z")).toBe(key("2026-10-19T09:15:03.481Z"));
+    expect(key("2026-10-19T09:15:02.120Z")).not.toBe(key("2026-10-18T09:15:02.120Z"));
+  });
+});
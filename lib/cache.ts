@@ -0,0 +1,116 @@
+import { createHash } from "crypto";
+import type { Snippet } from "@/lib/models";
+import { readJsonFile, updateJsonFile } from "@/lib/store";
+
+const CACHE_FILE = "cache";
+const MAX_ENTRIES = 500;
+const DEFAULT_TTL_SECONDS = 60 * 60;
+
+export type CacheStage = "A" | "C" | "D" | "E" | "retrieve" | "reason";
+
+type CacheEntry = {
+  value: unknown;
+  storedAt: string;
+  expiresAt: number;
+};
+
+type CacheFile = Record<string, CacheEntry>;
+
+export type CacheRequest = {
+  stage: CacheStage;
+  provider: { name: string; model?(): string };
+  prompt: string;
+  // Hashed instead of the prompt when the prompt embeds volatile values.
+  key?: unknown;
+  refresh?: boolean;
+  // Only values passing this check are stored or replayed, so a malformed
+  // answer is not served again for the whole TTL.
+  accept?: (value: unknown) => boolean;
+};
+
+export type CacheResult<T> = {
+  value: T;
+  cached: boolean;
+  storedAt?: string;
+};
+
+function normalizePrompt(prompt: string) {
+  return prompt.replace(/\s+/g, " ").trim();
+}
+
+export function cacheKey({ stage, provider, prompt, key }: CacheRequest) {
+  const model = provider.model?.() ?? provider.name;
+  const subject = key === undefined ? normalizePrompt(prompt) : key;
+  return createHash("sha256")
+    .update(JSON.stringify([stage, provider.name, model, subject]))
+    .digest("hex");
+}
+
+// Relative dates ("3 hours ago") normalize to a new millisecond on every
+// retrieval, so snippet keys only keep the day they were published.
+export function snippetCacheKey(snippets: Snippet[]) {
+  return snippets.map(({ title, snippet, url, publishedAt }) => [
+    title,
+    snippet,
+    url,
+    publishedAt.slice(0, 10),
+  ]);
+}
+
+// CACHE_TTL_<STAGE>_SECONDS overrides CACHE_TTL_SECONDS; 0 disables caching.
+export function cacheTtlSeconds(stage: CacheStage) {
+  const raw =
+    process.env[`CACHE_TTL_${stage.toUpperCase()}_SECONDS`] ??
+    process.env.CACHE_TTL_SECONDS;
+  const parsed = Number(raw);
+  return raw !== undefined && raw !== "" && Number.isFinite(parsed)
+    ? Math.max(0, parsed)
+    : DEFAULT_TTL_SECONDS;
+}
+
+function prune(entries: CacheFile, now: number) {
+  const live = Object.entries(entries)
+    .filter(([, entry]) => entry.expiresAt > now)
+    .sort(([, a], [, b]) => b.expiresAt - a.expiresAt)
+    .slice(0, MAX_ENTRIES);
+  return Object.fromEntries(live);
+}
+
+export async function withCache<T>(
+  request: CacheRequest,
+  load: () => Promise<T>
+): Promise<CacheResult<T>> {
+  const ttl = cacheTtlSeconds(request.stage);
+  if (!ttl) return { value: await load(), cached: false };
+
+  const key = cacheKey(request);
+  if (!request.refresh) {
+    const entries = await readJsonFile<CacheFile>(CACHE_FILE, {});
+    const entry = entries[key];
+    if (entry && entry.expiresAt > Date.now() && (request.accept?.(entry.value) ?? true)) {
+      return { value: entry.value as T, cached: true, storedAt: entry.storedAt };
+    }
+  }
+
+  const value = await load();
+  if (request.accept && !request.accept(value)) return { value, cached: false };
+  const now = Date.now();
+  try {
+    await updateJsonFile<CacheFile>(CACHE_FILE, {}, (entries) =>
+      prune(
+        {
+          ...entries,
+          [key]: {
+            value,
+            storedAt: new Date(now).toISOString(),
+            expiresAt: now + ttl * 1000,
+          },
+        },
+        now
+      )
+    );
+  } catch (error) {
+    console.error("Unable to write response cache", error);
+  }
+  return { value, cached: false };
+}
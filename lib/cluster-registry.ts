@@ -0,0 +1,237 @@
+import type { MoodQuery, NarrativeCluster, RegisteredCluster } from "@/lib/models";
+import { normalizeTitle, similarityScore } from "@/lib/similarity";
+import { snapshotKey } from "@/lib/snapshots";
+import { readJsonFile, updateJsonFile } from "@/lib/store";
+
+const REGISTRY_FILE = "cluster-registry";
+const MATCH_THRESHOLD = 0.7;
+const MAX_HEADLINES = 20;
+
+export class ClusterRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ClusterRegistryError";
+  }
+}
+
+function bestSimilarity(values: string[], candidates: string[]) {
+  let best = 0;
+  values.forEach((value) => {
+    const normalized = normalizeTitle(value);
+    candidates.forEach((candidate) => {
+      best = Math.max(best, similarityScore(normalized, normalizeTitle(candidate)));
+    });
+  });
+  return best;
+}
+
+// Label similarity decides on its own; shared headlines can lift a weaker
+// label match (e.g. "Business impact" vs "Business costs") over the threshold.
+export function matchScore(cluster: NarrativeCluster, known: RegisteredCluster) {
+  const labelScore = bestSimilarity([cluster.label], [known.label, ...known.aliases]);
+  const headlineScore = bestSimilarity(cluster.exampleHeadlines, known.headlines);
+  return Math.max(labelScore, (labelScore + headlineScore) / 2);
+}
+
+function hasAlias(known: RegisteredCluster, label: string) {
+  const key = normalizeTitle(label);
+  return [known.label, ...known.aliases].some((alias) => normalizeTitle(alias) === key);
+}
+
+function activeInScope(registry: RegisteredCluster[], scope: string) {
+  return registry.filter((entry) => entry.scope === scope && !entry.mergedInto);
+}
+
+function unique(values: string[]) {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const key = normalizeTitle(value);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export async function listRegisteredClusters(query: MoodQuery) {
+  const registry = await readJsonFile<RegisteredCluster[]>(REGISTRY_FILE, []);
+  return activeInScope(registry, snapshotKey(query)).sort((a, b) =>
+    b.lastSeenAt.localeCompare(a.lastSeenAt)
+  );
+}
+
+export async function assignClusterIds(query: MoodQuery, clusters: NarrativeCluster[]) {
+  const scope = snapshotKey(query);
+  const now = new Date().toISOString();
+  let assigned: NarrativeCluster[] = clusters;
+  await updateJsonFile<RegisteredCluster[]>(REGISTRY_FILE, [], (registry) => {
+    const next = [...registry];
+    const claimed = new Set<string>();
+    assigned = clusters.map((cluster) => {
+      const candidates = activeInScope(next, scope).filter((entry) => !claimed.has(entry.id));
+      const exact = candidates.find((entry) => hasAlias(entry, cluster.label));
+      const fuzzy = exact
+        ? null
+        : candidates
+            .map((entry) => ({ entry, score: matchScore(cluster, entry) }))
+            .filter((match) => match.score >= MATCH_THRESHOLD)
+            .sort((a, b) => b.score - a.score)[0]?.entry;
+      const match = exact ?? fuzzy;
+      if (match) {
+        const updated: RegisteredCluster = {
+          ...match,
+          aliases: unique([...match.aliases, cluster.label]),
+          headlines: unique([...cluster.exampleHeadlines, ...match.headlines]).slice(0, MAX_HEADLINES),
+          lastSeenAt: now,
+          updatedAt: now,
+        };
+        next[next.indexOf(match)] = updated;
+        claimed.add(match.id);
+        return { ...cluster, id: match.id };
+      }
+      const created: RegisteredCluster = {
+        id: crypto.randomUUID(),
+        scope,
+        label: cluster.label,
+        aliases: [cluster.label],
+        headlines: unique(cluster.exampleHeadlines).slice(0, MAX_HEADLINES),
+        createdAt: now,
+        updatedAt: now,
+        lastSeenAt: now,
+      };
+      next.push(created);
+      claimed.add(created.id);
+      return { ...cluster, id: created.id };
+    });
+    return next;
+  });
+  return assigned;
+}
+
+function canonicalEntry(registry: RegisteredCluster[], scope: string, cluster: NarrativeCluster) {
+  // Aliases win over stored IDs so merges and splits also apply to older runs.
+  const byAlias = activeInScope(registry, scope).find((entry) => hasAlias(entry, cluster.label));
+  if (byAlias) return byAlias;
+  const byId = new Map(registry.map((entry) => [entry.id, entry]));
+  let entry = cluster.id ? byId.get(cluster.id) : undefined;
+  const visited = new Set<string>();
+  while (entry?.mergedInto && !visited.has(entry.id)) {
+    visited.add(entry.id);
+    entry = byId.get(entry.mergedInto);
+  }
+  return entry ?? null;
+}
+
+export function canonicalizeClusters(
+  registry: RegisteredCluster[],
+  query: MoodQuery,
+  clusters: NarrativeCluster[]
+) {
+  const scope = snapshotKey(query);
+  const byKey = new Map<string, NarrativeCluster>();
+  clusters.forEach((cluster) => {
+    const entry = canonicalEntry(registry, scope, cluster);
+    const canonical = entry ? { id: entry.id, label: entry.label } : { label: cluster.label };
+    const key = canonical.id ?? normalizeTitle(canonical.label);
+    const existing = byKey.get(key);
+    byKey.set(key, {
+      ...canonical,
+      size: (existing?.size ?? 0) + cluster.size,
+      exampleHeadlines: [...(existing?.exampleHeadlines ?? []), ...cluster.exampleHeadlines],
+    });
+  });
+  return Array.from(byKey.values()).sort((a, b) => b.size - a.size);
+}
+
+export async function loadClusterResolver(query: MoodQuery) {
+  const registry = await readJsonFile<RegisteredCluster[]>(REGISTRY_FILE, []);
+  return (clusters: NarrativeCluster[]) => canonicalizeClusters(registry, query, clusters);
+}
+
+async function updateRegistry(
+  apply: (registry: RegisteredCluster[], now: string) => RegisteredCluster[] | null
+) {
+  let found = true;
+  await updateJsonFile<RegisteredCluster[]>(REGISTRY_FILE, [], (registry) => {
+    const next = apply(registry, new Date().toISOString());
+    found = next !== null;
+    return next ?? registry;
+  });
+  return found;
+}
+
+export async function renameCluster(id: string, label: string) {
+  let renamed: RegisteredCluster | null = null;
+  await updateRegistry((registry, now) => {
+    const target = registry.find((entry) => entry.id === id && !entry.mergedInto);
+    if (!target) return null;
+    renamed = { ...target, label, aliases: unique([...target.aliases, label]), updatedAt: now };
+    return registry.map((entry) => (entry.id === id ? (renamed as RegisteredCluster) : entry));
+  });
+  return renamed as RegisteredCluster | null;
+}
+
+export async function mergeClusters(sourceId: string, targetId: string) {
+  if (sourceId === targetId) {
+    throw new ClusterRegistryError("Cannot merge a cluster into itself.");
+  }
+  let merged: RegisteredCluster | null = null;
+  await updateRegistry((registry, now) => {
+    const source = registry.find((entry) => entry.id === sourceId && !entry.mergedInto);
+    const target = registry.find((entry) => entry.id === targetId && !entry.mergedInto);
+    if (!source || !target) return null;
+    if (source.scope !== target.scope) {
+      throw new ClusterRegistryError("Clusters belong to different queries.");
+    }
+    merged = {
+      ...target,
+      aliases: unique([...target.aliases, source.label, ...source.aliases]),
+      headlines: unique([...target.headlines, ...source.headlines]).slice(0, MAX_HEADLINES),
+      lastSeenAt: [target.lastSeenAt, source.lastSeenAt].sort().at(-1) ?? now,
+      updatedAt: now,
+    };
+    return registry.map((entry) => {
+      if (entry.id === targetId) return merged as RegisteredCluster;
+      if (entry.id === sourceId) return { ...entry, mergedInto: targetId, updatedAt: now };
+      return entry;
+    });
+  });
+  return merged as RegisteredCluster | null;
+}
+
+export async function splitCluster(id: string, aliases: string[], label?: string) {
+  let created: RegisteredCluster | null = null;
+  await updateRegistry((registry, now) => {
+    const source = registry.find((entry) => entry.id === id && !entry.mergedInto);
+    if (!source) return null;
+    const moving = new Set(aliases.map(normalizeTitle));
+    const remaining = source.aliases.filter((alias) => !moving.has(normalizeTitle(alias)));
+    const moved = source.aliases.filter((alias) => moving.has(normalizeTitle(alias)));
+    if (moved.length !== moving.size) {
+      throw new ClusterRegistryError("Only existing aliases of the cluster can be split off.");
+    }
+    if (!remaining.length) {
+      throw new ClusterRegistryError("At least one alias must stay with the original cluster.");
+    }
+    const newLabel = label ?? moved[0];
+    created = {
+      id: crypto.randomUUID(),
+      scope: source.scope,
+      label: newLabel,
+      aliases: unique([newLabel, ...moved]),
+      headlines: [],
+      createdAt: now,
+      updatedAt: now,
+      lastSeenAt: source.lastSeenAt,
+    };
+    const keepLabel = moving.has(normalizeTitle(source.label)) ? remaining[0] : source.label;
+    return [
+      ...registry.map((entry) =>
+        entry.id === id
+          ? { ...entry, label: keepLabel, aliases: remaining, updatedAt: now }
+          : entry
+      ),
+      created as RegisteredCluster,
+    ];
+  });
+  return created as RegisteredCluster | null;
+}
@@ -0,0 +1,22 @@
+import type { ClassifiedSnippet, NarrativeCluster, Snippet } from "@/lib/models";
+
+export function clusterKey(label: string) {
+  return label.trim().toLowerCase();
+}
+
+export function deriveClusters(items: ClassifiedSnippet[], snippets: Snippet[]) {
+  const byLabel = new Map<string, NarrativeCluster>();
+  items.forEach((item) => {
+    const label = item.cluster.trim();
+    if (!label) return;
+    const key = clusterKey(label);
+    const cluster = byLabel.get(key) ?? { label, size: 0, exampleHeadlines: [] };
+    cluster.size += 1;
+    const headline = snippets[item.index]?.title;
+    if (headline && cluster.exampleHeadlines.length < 3) {
+      cluster.exampleHeadlines.push(headline);
+    }
+    byLabel.set(key, cluster);
+  });
+  return Array.from(byLabel.values()).sort((a, b) => b.size - a.size);
+}
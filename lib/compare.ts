@@ -0,0 +1,135 @@
+import type {
+  ComparisonEntry,
+  MoodComparison,
+  MoodQuery,
+  MoodResult,
+} from "@/lib/models";
+import {
+  enforceSnippetBudget,
+  reasonMoodSnippets,
+  retrieveMoodSnippets,
+  type MoodPipelineOptions,
+} from "@/lib/mood-pipeline";
+import { normalizeTitle, similarityScore } from "@/lib/similarity";
+
+const CLUSTER_MATCH_THRESHOLD = 0.7;
+
+type LabelGroup = {
+  key: string;
+  label: string;
+  counts: number[];
+};
+
+export async function runComparison(
+  queries: MoodQuery[],
+  options: MoodPipelineOptions = {}
+): Promise<ComparisonEntry[]> {
+  return Promise.all(
+    queries.map(async (query) => {
+      try {
+        const retrieved = await retrieveMoodSnippets(query, options);
+        const reasoned = await reasonMoodSnippets(
+          query,
+          enforceSnippetBudget(retrieved.snippets),
+          options
+        );
+        return { query, result: reasoned.mood, cached: retrieved.cached && reasoned.cached };
+      } catch (error) {
+        return {
+          query,
+          result: null,
+          cached: false,
+          error: error instanceof Error ? error.message : "Comparison run failed",
+        };
+      }
+    })
+  );
+}
+
+// Groups labels across entries: exact matches for concerns, bigram similarity
+// for cluster labels, which vary in wording between separate model calls.
+function groupLabels(
+  entries: { label: string; count: number }[][],
+  fuzzy: boolean
+) {
+  const groups: LabelGroup[] = [];
+  entries.forEach((labels, entryIndex) => {
+    labels.forEach(({ label, count }) => {
+      const key = normalizeTitle(label);
+      if (!key) return;
+      const match = fuzzy
+        ? groups
+            .map((group) => ({ group, score: similarityScore(group.key, key) }))
+            .filter((candidate) => candidate.score >= CLUSTER_MATCH_THRESHOLD)
+            .sort((a, b) => b.score - a.score)[0]?.group
+        : groups.find((group) => group.key === key);
+      const group = match ?? { key, label, counts: entries.map(() => 0) };
+      if (!match) groups.push(group);
+      group.counts[entryIndex] += count;
+    });
+  });
+  return groups;
+}
+
+function splitGroups(groups: LabelGroup[], available: number[], entryCount: number) {
+  const shared = groups.filter((group) => available.every((index) => group.counts[index] > 0));
+  const unique = Array.from({ length: entryCount }, (_, entryIndex) =>
+    groups
+      .filter((group) =>
+        group.counts.every((count, index) => (index === entryIndex ? count > 0 : count === 0))
+      )
+      .map((group) => ({ label: group.label, count: group.counts[entryIndex] }))
+      .sort((a, b) => b.count - a.count)
+  );
+  return { shared, unique };
+}
+
+export function compareMoodResults(results: (MoodResult | null)[]): MoodComparison {
+  const available = results.flatMap((result, index) => (result ? [index] : []));
+
+  const emotionNames = Array.from(
+    new Set(results.flatMap((result) => result?.emotions.map((entry) => entry.emotion) ?? []))
+  );
+  const emotions = emotionNames
+    .map((emotion) => {
+      const shares = results.map(
+        (result) => result?.emotions.find((entry) => entry.emotion === emotion)?.percentage ?? 0
+      );
+      const present = available.map((index) => shares[index]);
+      const spread = present.length
+        ? Math.round((Math.max(...present) - Math.min(...present)) * 10) / 10
+        : 0;
+      return { emotion, shares, spread };
+    })
+    .sort((a, b) => b.spread - a.spread);
+
+  const clusters = splitGroups(
+    groupLabels(
+      results.map(
+        (result) => result?.clusters.map((cluster) => ({ label: cluster.label, count: cluster.size })) ?? []
+      ),
+      true
+    ),
+    available,
+    results.length
+  );
+
+  const concerns = splitGroups(
+    groupLabels(
+      results.map((result) => (result?.items ?? []).map((item) => ({ label: item.concern, count: 1 }))),
+      false
+    ),
+    available,
+    results.length
+  );
+
+  return {
+    emotions,
+    sharedClusters: clusters.shared.map((group) => ({ label: group.label, sizes: group.counts })),
+    uniqueClusters: clusters.unique.map((labels) =>
+      labels.map(({ label, count }) => ({ label, size: count }))
+    ),
+    sharedConcerns: concerns.shared.map((group) => group.label),
+    distinctConcerns: concerns.unique,
+  };
+}
@@ -0,0 +1,545 @@
+import { z } from "zod";
+
+const text = z.preprocess(
+  (value) => (value === null || value === undefined ? "" : String(value).trim()),
+  z.string()
+);
+
+const requiredText = text.pipe(z.string().min(1));
+
+const textList = z.preprocess(
+  (value) => (typeof value === "string" ? [value] : value ?? []),
+  z.array(text)
+).transform((items) => items.filter(Boolean));
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Models return scores like 82, "82" or "82/100"; keep them on a 0-100 scale.
+const score = z
+  .preprocess(
+    (value) => (typeof value === "string" ? Number.parseFloat(value) : value),
+    z.number().finite()
+  )
+  .transform((value) => clamp(Math.round(value), 0, 100));
+
+const flag = z.preprocess((value) => {
+  if (typeof value === "string") {
+    return ["true", "yes", "y", "1"].includes(value.trim().toLowerCase());
+  }
+  return value ?? false;
+}, z.boolean());
+
+const indexList = z.preprocess(
+  (value) => (Array.isArray(value) ? value : value === undefined || value === null ? [] : [value]),
+  z.array(z.coerce.number().int().nonnegative())
+);
+
+export const dateStatusSchema = z.enum(["dated", "missing", "outside_window"]);
+
+export const snippetSchema = z.object({
+  title: z.string(),
+  snippet: z.string(),
+  url: z.string(),
+  // UTC ISO string once normalized at retrieval; "" when the source gave no usable date.
+  publishedAt: z.string(),
+  dateStatus: dateStatusSchema.optional(),
+});
+
+export const classifiedSnippetSchema = z.object({
+  index: z.number().int().nonnegative(),
+  emotion: z.string().min(1),
+  concern: z.string().min(1),
+  narrative: z.string().min(1),
+  cluster: z.string().min(1),
+});
+
+export const narrativeClusterSchema = z.object({
+  // Stable registry ID, assigned after reasoning; never trusted from the model.
+  id: z.string().optional(),
+  label: z.string().min(1),
+  size: z.number().int().nonnegative(),
+  exampleHeadlines: z.array(z.string()).default([]),
+});
+
+export const reasonResultSchema = z.object({
+  items: z.array(classifiedSnippetSchema),
+  clusters: z.array(narrativeClusterSchema).optional(),
+});
+
+export const emotionStatsSchema = z.object({
+  emotion: z.string(),
+  count: z.number(),
+  percentage: z.number(),
+});
+
+export const volatilityReportSchema = z.object({
+  score: z.number(),
+  emotionShift: z.number(),
+  clusterChurn: z.number(),
+  emotionDeltas: z.array(
+    z.object({
+      emotion: z.string(),
+      previous: z.number(),
+      current: z.number(),
+      delta: z.number(),
+    })
+  ),
+  appearedClusters: z.array(z.string()),
+  appearedClusterIds: z.array(z.string()).optional(),
+  disappearedClusters: z.array(z.string()),
+  previousRunAt: z.string(),
+});
+
+export const sourceSignalSchema = snippetSchema.extend({
+  domain: z.string(),
+});
+
+export const suggestionSignalsSchema = z.object({
+  relevance: z.number(),
+  recency: z.number(),
+  diversity: z.number(),
+  rationale: z.array(z.string()),
+});
+
+export const suggestionSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  summary: z.string(),
+  score: z.number(),
+  confidence: z.number(),
+  confidenceLabel: z.string(),
+  signals: suggestionSignalsSchema,
+  provenance: z.object({
+    sources: z.array(sourceSignalSchema),
+    notes: z.array(z.string()),
+  }),
+});
+
+export const opportunitySchema = z.object({
+  title: requiredText,
+  description: text,
+  platformFit: text,
+  audienceAngle: text,
+  evidenceIndexes: indexList,
+  newness: text,
+});
+
+export const opportunityGapSchema = z.object({
+  gap: requiredText,
+  whyNow: text,
+  suggestedContent: text,
+});
+
+export const opportunityScoreSchema = z.object({
+  title: requiredText,
+  score,
+  risk: text,
+  effort: text,
+  rationale: text,
+  recommended: flag,
+});
+
+export const playbookSchema = z.object({
+  positioning: text,
+  contentPillars: textList,
+  weeklyPlan: textList,
+  monetizationIdeas: textList,
+  collaborationTargets: textList,
+  watchouts: textList,
+});
+
+export const stageCSchema = z.object({
+  opportunities: z.array(opportunitySchema).default([]),
+  gaps: z.array(opportunityGapSchema).default([]),
+});
+
+export const stageDSchema = z.object({
+  scored: z.array(opportunityScoreSchema),
+});
+
+export const stageESchema = z.object({
+  playbook: playbookSchema,
+});
+
+export const SOURCE_CATEGORIES = ["news", "blog", "forum", "government", "social", "other"] as const;
+export const CREDIBILITY_TIERS = ["high", "medium", "low"] as const;
+
+export const sourceCategorySchema = z.enum(SOURCE_CATEGORIES);
+export const credibilityTierSchema = z.enum(CREDIBILITY_TIERS);
+
+// Accepts "www.Example.com", "https://example.com/path" or "example.com".
+const domainName = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .transform((value) =>
+    value
+      .replace(/^[a-z]+:\/\//, "")
+      .replace(/[/?#].*$/, "")
+      .replace(/^www\./, "")
+  )
+  .pipe(z.string().min(1));
+
+export const sourceDomainRuleSchema = z.object({
+  domain: domainName,
+  category: sourceCategorySchema.optional(),
+  tier: credibilityTierSchema.optional(),
+});
+
+export const sourcePolicySchema = z.object({
+  // Allowlisted domains skip category and tier checks; with allowOnly set,
+  // nothing else gets through. Blocklisted domains are always dropped.
+  allow: z.array(domainName).default([]),
+  allowOnly: z.boolean().default(false),
+  block: z.array(domainName).default(["x.com", "twitter.com", "reddit.com"]),
+  blockCategories: z.array(sourceCategorySchema).default([]),
+  minTier: credibilityTierSchema.default("low"),
+  domains: z.array(sourceDomainRuleSchema).default([]),
+});
+
+// Each workspace keeps its own source policy.
+export const DEFAULT_WORKSPACE = "default";
+
+export const workspaceSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9][a-z0-9_-]{0,39}$/, "Use up to 40 letters, digits, dashes or underscores.");
+
+export const filteredSourceSchema = z.object({
+  url: z.string(),
+  title: z.string(),
+  domain: z.string(),
+  category: sourceCategorySchema,
+  tier: credibilityTierSchema,
+  rule: z.enum(["invalid_url", "blocked", "not_allowed", "category", "tier"]),
+  reason: z.string(),
+});
+
+export const sourcePolicyReportSchema = z.object({
+  policy: sourcePolicySchema,
+  kept: z.number().int().nonnegative(),
+  filtered: z.array(filteredSourceSchema),
+});
+
+export const domainShareSchema = z.object({
+  domain: z.string(),
+  count: z.number().int().nonnegative(),
+  share: z.number(),
+  category: sourceCategorySchema,
+  tier: credibilityTierSchema,
+});
+
+export const sourceMetricsSchema = z.object({
+  total: z.number().int().nonnegative(),
+  uniqueDomains: z.number().int().nonnegative(),
+  domains: z.array(domainShareSchema),
+  // Gini-Simpson index: chance that two random sources come from different domains.
+  diversityIndex: z.number(),
+  topDomainShare: z.number(),
+  concentrated: z.boolean(),
+  tiers: z.object({ high: z.number(), medium: z.number(), low: z.number() }),
+  dateSpread: z.object({
+    dated: z.number().int().nonnegative(),
+    undated: z.number().int().nonnegative(),
+    earliest: z.string().nullable(),
+    latest: z.string().nullable(),
+    spanHours: z.number().nullable(),
+  }),
+});
+
+export const dateWindowReportSchema = z.object({
+  timeWindow: z.string().nullable(),
+  from: z.string().nullable(),
+  to: z.string(),
+  mode: z.enum(["drop", "flag"]),
+  dated: z.number().int().nonnegative(),
+  missing: z.number().int().nonnegative(),
+  outsideWindow: z.number().int().nonnegative(),
+  dropped: z.number().int().nonnegative(),
+});
+
+export const duplicateReasonSchema = z.enum(["url", "title", "similar"]);
+
+export const dedupReportSchema = z.object({
+  input: z.number().int().nonnegative(),
+  invalid: z.number().int().nonnegative(),
+  kept: z.number().int().nonnegative(),
+  clusters: z.array(
+    z.object({
+      url: z.string(),
+      title: z.string(),
+      merged: z.array(
+        z.object({
+          url: z.string(),
+          title: z.string(),
+          reason: duplicateReasonSchema,
+          similarity: z.number(),
+        })
+      ),
+    })
+  ),
+});
+
+export const stageKeySchema = z.enum(["A", "B", "C", "D", "E"]);
+
+export const pipelineErrorCodeSchema = z.enum([
+  "upstream_http",
+  "parse",
+  "schema",
+  "missing_key",
+  "internal",
+]);
+
+export const validationIssueSchema = z.object({
+  path: z.string(),
+  message: z.string(),
+});
+
+export const stageDataSchemas = {
+  A: z.object({
+    signals: z.array(snippetSchema),
+    sourcePolicy: sourcePolicyReportSchema.optional(),
+    sourceMetrics: sourceMetricsSchema.optional(),
+    dateWindow: dateWindowReportSchema.optional(),
+    dedup: dedupReportSchema.optional(),
+  }),
+  B: z.object({ normalized: z.array(snippetSchema) }),
+  C: stageCSchema,
+  D: stageDSchema.extend({ suggestions: z.array(suggestionSchema).default([]) }),
+  E: stageESchema,
+};
+
+// Mood run outputs that exports read; each is validated on its own so one
+// malformed field does not discard the rest.
+export const moodOutputSchemas = {
+  snippets: z.array(snippetSchema),
+  items: z.array(classifiedSnippetSchema),
+  clusters: z.array(narrativeClusterSchema),
+  emotions: z.array(emotionStatsSchema),
+  suggestions: z.array(suggestionSchema),
+  volatility: volatilityReportSchema.nullable(),
+  sourceMetrics: sourceMetricsSchema,
+};
+
+export const pipelineSummarySchema = z.object({
+  completed: z.array(stageKeySchema),
+  failed: stageKeySchema.optional(),
+  code: pipelineErrorCodeSchema.optional(),
+  runId: z.string().optional(),
+});
+
+export const stageEventSchema = z.object({
+  stage: stageKeySchema,
+  status: z.enum(["start", "progress", "complete", "error", "summary"]),
+  message: z.string().optional(),
+  code: pipelineErrorCodeSchema.optional(),
+  cached: z.boolean().optional(),
+  data: z.unknown().optional(),
+});
+
+export const analyzePayloadSchema = z.object({
+  niche: z.string(),
+  platform: z.string(),
+  audience: z.string(),
+  country: z.string().optional(),
+  refresh: z.boolean().optional(),
+});
+
+export const analyzeRequestSchema = analyzePayloadSchema.partial().extend({
+  runId: z.string().optional(),
+  startFrom: stageKeySchema.optional(),
+  outputs: z.partialRecord(stageKeySchema, z.unknown()).optional(),
+  workspace: workspaceSchema.optional(),
+});
+
+export const moodQuerySchema = z.object({
+  topic: requiredText,
+  region: requiredText,
+  timeWindow: requiredText,
+  sourceFocus: text,
+});
+
+export const MAX_COMPARE_QUERIES = 4;
+
+export const compareRequestSchema = z.object({
+  queries: z.array(moodQuerySchema).min(2).max(MAX_COMPARE_QUERIES),
+  refresh: z.boolean().optional(),
+  workspace: workspaceSchema.optional(),
+});
+
+const watchlistFields = {
+  name: z.string().trim().optional(),
+  schedule: z.string().trim().min(1),
+  enabled: z.boolean().default(true),
+};
+
+export const watchlistInputSchema = z.discriminatedUnion("kind", [
+  z.object({ ...watchlistFields, kind: z.literal("mood"), query: moodQuerySchema }),
+  z.object({
+    ...watchlistFields,
+    kind: z.literal("analyze"),
+    query: analyzePayloadSchema.omit({ refresh: true }),
+  }),
+]);
+
+export const watchlistUpdateSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  schedule: z.string().trim().min(1).optional(),
+  enabled: z.boolean().optional(),
+});
+
+export const alertConditionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("emotion_share"),
+    emotion: z.string().trim().min(1),
+    threshold: z.number().min(0).max(100),
+  }),
+  z.object({
+    type: z.literal("new_cluster"),
+    minSize: z.number().int().min(1),
+  }),
+  z.object({
+    type: z.literal("opportunity_score"),
+    minScore: z.number().min(0).max(100),
+    requireRecommended: z.boolean().default(true),
+  }),
+]);
+
+export const alertRuleInputSchema = z.object({
+  name: z.string().trim().optional(),
+  enabled: z.boolean().default(true),
+  // Case-insensitive match against the mood topic or creator niche; empty matches all.
+  scope: z.string().trim().default(""),
+  condition: alertConditionSchema,
+});
+
+export const alertRuleUpdateSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  enabled: z.boolean().optional(),
+  scope: z.string().trim().optional(),
+});
+
+export const clusterMergeSchema = z.object({
+  sourceId: z.string().min(1),
+  targetId: z.string().min(1),
+});
+
+export const clusterSplitSchema = z.object({
+  aliases: z.array(z.string().trim().min(1)).min(1),
+  label: z.string().trim().min(1).optional(),
+});
+
+export const clusterUpdateSchema = z.object({
+  label: z.string().trim().min(1),
+});
+
+const correctionFields = {
+  index: z.number().int().nonnegative(),
+  author: z.string().trim().min(1),
+};
+
+const hasChanges = (changes: Record<string, unknown>) =>
+  Object.values(changes).some((value) => value !== undefined);
+
+export const correctionInputSchema = z.discriminatedUnion("target", [
+  z.object({
+    ...correctionFields,
+    target: z.literal("classification"),
+    changes: z
+      .object({
+        emotion: z.string().trim().min(1).optional(),
+        concern: z.string().trim().min(1).optional(),
+        narrative: z.string().trim().min(1).optional(),
+        cluster: z.string().trim().min(1).optional(),
+      })
+      .refine(hasChanges, "At least one field must change."),
+  }),
+  z.object({
+    ...correctionFields,
+    target: z.literal("opportunity"),
+    changes: z
+      .object({
+        score: z.number().min(0).max(100).optional(),
+        recommended: z.boolean().optional(),
+      })
+      .refine(hasChanges, "At least one field must change."),
+  }),
+]);
+
+export const exportFormatSchema = z.enum(["markdown", "json", "csv", "html"]);
+
+export const exportRequestSchema = z.object({
+  format: exportFormatSchema,
+  runId: z.string().optional(),
+  run: z
+    .object({
+      kind: z.enum(["analyze", "mood"]),
+      name: z.string().optional(),
+      inputs: z.record(z.string(), z.unknown()),
+      outputs: z.record(z.string(), z.unknown()).default({}),
+    })
+    .optional(),
+});
+
+export type Snippet = z.output<typeof snippetSchema>;
+export type Signal = Snippet;
+export type ClassifiedSnippet = z.output<typeof classifiedSnippetSchema>;
+export type NarrativeCluster = z.output<typeof narrativeClusterSchema>;
+export type EmotionStats = z.output<typeof emotionStatsSchema>;
+export type SourceSignal = z.output<typeof sourceSignalSchema>;
+export type SuggestionSignals = z.output<typeof suggestionSignalsSchema>;
+export type Suggestion = z.output<typeof suggestionSchema>;
+export type Opportunity = z.output<typeof opportunitySchema>;
+export type OpportunityGap = z.output<typeof opportunityGapSchema>;
+export type OpportunityScore = z.output<typeof opportunityScoreSchema>;
+export type Playbook = z.output<typeof playbookSchema>;
+export type SourceCategory = z.output<typeof sourceCategorySchema>;
+export type CredibilityTier = z.output<typeof credibilityTierSchema>;
+export type SourceDomainRule = z.output<typeof sourceDomainRuleSchema>;
+export type SourcePolicy = z.output<typeof sourcePolicySchema>;
+export type SourcePolicyInput = z.input<typeof sourcePolicySchema>;
+export type FilteredSource = z.output<typeof filteredSourceSchema>;
+export type SourcePolicyReport = z.output<typeof sourcePolicyReportSchema>;
+export type DateStatus = z.output<typeof dateStatusSchema>;
+export type DateWindowReport = z.output<typeof dateWindowReportSchema>;
+export type TimeWindowMode = DateWindowReport["mode"];
+export type DuplicateReason = z.output<typeof duplicateReasonSchema>;
+export type DedupReport = z.output<typeof dedupReportSchema>;
+export type DomainShare = z.output<typeof domainShareSchema>;
+export type SourceMetrics = z.output<typeof sourceMetricsSchema>;
+export type StageKey = z.output<typeof stageKeySchema>;
+export type PipelineErrorCode = z.output<typeof pipelineErrorCodeSchema>;
+export type ValidationIssue = z.output<typeof validationIssueSchema>;
+export type StageData = {
+  [K in StageKey]: z.output<(typeof stageDataSchemas)[K]>;
+};
+export type PipelineSummary = z.output<typeof pipelineSummarySchema>;
+export type StageEvent = z.output<typeof stageEventSchema>;
+export type AnalyzePayload = z.output<typeof analyzePayloadSchema>;
+export type AnalyzeRequest = z.output<typeof analyzeRequestSchema>;
+export type CompareRequest = z.output<typeof compareRequestSchema>;
+export type WatchlistInput = z.output<typeof watchlistInputSchema>;
+export type WatchlistUpdate = z.output<typeof watchlistUpdateSchema>;
+export type AlertCondition = z.output<typeof alertConditionSchema>;
+export type AlertRuleInput = z.output<typeof alertRuleInputSchema>;
+export type AlertRuleUpdate = z.output<typeof alertRuleUpdateSchema>;
+export type CorrectionInput = z.output<typeof correctionInputSchema>;
+export type ExportFormat = z.output<typeof exportFormatSchema>;
+export type ExportRequest = z.input<typeof exportRequestSchema>;
+
+export function describeIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join(".") || "(root)",
+    message: issue.message,
+  }));
+}
+
+export function parseStageData<K extends StageKey>(stage: K, data: unknown) {
+  const parsed = stageDataSchemas[stage].safeParse(data);
+  return parsed.success
+    ? { success: true as const, data: parsed.data as StageData[K] }
+    : { success: false as const, issues: describeIssues(parsed.error) };
+}
@@ -0,0 +1,92 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { applyCorrections, listCorrections, recordCorrection } from "@/lib/corrections";
+import type { ClassifiedSnippet, Correction, MoodRun } from "@/lib/models";
+import { deleteRun, saveRun } from "@/lib/runs";
+
+function item(index: number, cluster: string): ClassifiedSnippet {
+  return { index, emotion: "anger", concern: "", narrative: "", cluster };
+}
+
+const run: MoodRun = {
+  id: "run-1",
+  name: "fares · Global",
+  kind: "mood",
+  createdAt: "2026-10-18T00:00:00.000Z",
+  updatedAt: "2026-10-18T00:00:00.000Z",
+  timings: [],
+  errors: [],
+  inputs: { topic: "fares", region: "Global", timeWindow: "7 days", sourceFocus: "" },
+  outputs: {
+    snippets: [],
+    items: [item(0, "Fare hikes"), item(1, "Fare hikes"), item(2, "Strikes")],
+    clusters: [
+      { id: "c-fares", label: "Fare hikes", size: 2, exampleHeadlines: [] },
+      { id: "c-strikes", label: "Strikes", size: 1, exampleHeadlines: [] },
+    ],
+  },
+};
+
+function correction(index: number, corrected: string): Correction {
+  return {
+    id: `fix-${index}`,
+    runId: run.id,
+    runKind: "mood",
+    target: "classification",
+    index,
+    field: "cluster",
+    original: null,
+    corrected,
+    author: "reviewer",
+    createdAt: "2026-10-19T00:00:00.000Z",
+  };
+}
+
+describe("applyCorrections", () => {
+  it("keeps registry cluster IDs when cluster corrections rebuild the clusters", () => {
+    const corrected = applyCorrections(run, [
+      correction(1, "strikes"),
+      correction(2, "Service cuts"),
+    ]) as MoodRun;
+    expect(corrected.outputs.clusters).toEqual([
+      expect.objectContaining({ id: "c-fares", label: "Fare hikes", size: 1 }),
+      expect.objectContaining({ id: "c-strikes", label: "strikes", size: 1 }),
+      expect.not.objectContaining({ id: expect.anything() }),
+    ]);
+    expect(corrected.outputs.clusters?.[2].label).toBe("Service cuts");
+  });
+});
+
+describe("deleteRun", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "corrections-test-"));
+    process.env.DATA_DIR = dir;
+  });
+
+  afterEach(async () => {
+    delete process.env.DATA_DIR;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("removes the deleted run's corrections and keeps the others", async () => {
+    const { kind, inputs, outputs, timings, errors } = run;
+    const first = await saveRun({ kind, inputs, outputs, timings, errors });
+    const second = await saveRun({ kind, inputs, outputs, timings, errors });
+    const input = {
+      target: "classification" as const,
+      index: 0,
+      changes: { emotion: "joy" },
+      author: "reviewer",
+    };
+    await recordCorrection(first, input);
+    await recordCorrection(second, input);
+
+    expect(await deleteRun(first.id)).toBe(true);
+    expect(await listCorrections(first.id)).toEqual([]);
+    expect(await listCorrections(second.id)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,160 @@
+import { clusterKey, deriveClusters } from "@/lib/clusters";
+import type { CorrectionInput } from "@/lib/contracts";
+import { computeClusterEmotions, computeEmotionStats } from "@/lib/emotions";
+import type {
+  AnalyzeRun,
+  Correction,
+  MoodRun,
+  NarrativeCluster,
+  RunRecord,
+} from "@/lib/models";
+import { clusterCandidates, rankSuggestions } from "@/lib/ranking";
+import { getRun } from "@/lib/runs";
+import { readJsonFile, updateJsonFile } from "@/lib/store";
+
+const CORRECTIONS_FILE = "corrections";
+
+export class CorrectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CorrectionError";
+  }
+}
+
+export async function listCorrections(runId?: string) {
+  const corrections = await readJsonFile<Correction[]>(CORRECTIONS_FILE, []);
+  return runId ? corrections.filter((correction) => correction.runId === runId) : corrections;
+}
+
+export async function deleteCorrections(runId: string) {
+  await updateJsonFile<Correction[]>(CORRECTIONS_FILE, [], (corrections) =>
+    corrections.filter((correction) => correction.runId !== runId)
+  );
+}
+
+// Originals always come from the stored model output, not earlier corrections,
+// so the dataset measures the model rather than previous reviewers.
+function originalRecord(run: RunRecord, input: CorrectionInput): Record<string, unknown> {
+  if (input.target === "classification") {
+    if (run.kind !== "mood") {
+      throw new CorrectionError("Classification corrections apply to mood runs only.");
+    }
+    const item = run.outputs.items?.find((entry) => entry.index === input.index);
+    if (!item) throw new CorrectionError(`No classified snippet with index ${input.index}.`);
+    return item;
+  }
+  if (run.kind !== "analyze") {
+    throw new CorrectionError("Opportunity corrections apply to analyze runs only.");
+  }
+  const scored = run.outputs.D?.scored[input.index];
+  if (!scored) throw new CorrectionError(`No scored opportunity with index ${input.index}.`);
+  return scored;
+}
+
+export async function recordCorrection(run: RunRecord, input: CorrectionInput) {
+  const original = originalRecord(run, input);
+  const createdAt = new Date().toISOString();
+  const corrections = Object.entries(input.changes)
+    .filter(([, value]) => value !== undefined)
+    .map<Correction>(([field, value]) => ({
+      id: crypto.randomUUID(),
+      runId: run.id,
+      runKind: run.kind,
+      target: input.target,
+      index: input.index,
+      field,
+      original: (original[field] as Correction["original"]) ?? null,
+      corrected: value as Correction["corrected"],
+      author: input.author,
+      createdAt,
+    }));
+  await updateJsonFile<Correction[]>(CORRECTIONS_FILE, [], (existing) => [
+    ...existing,
+    ...corrections,
+  ]);
+  return corrections;
+}
+
+// Later corrections of the same field win.
+function overrides(corrections: Correction[], target: Correction["target"]) {
+  const byIndex = new Map<number, Record<string, Correction["corrected"]>>();
+  corrections
+    .filter((correction) => correction.target === target)
+    .forEach((correction) => {
+      byIndex.set(correction.index, {
+        ...byIndex.get(correction.index),
+        [correction.field]: correction.corrected,
+      });
+    });
+  return byIndex;
+}
+
+// Rebuilt clusters keep the registry ID of the stored cluster with the same
+// label, so volatility and alerts still recognise them.
+function keepClusterIds(clusters: NarrativeCluster[], previous: NarrativeCluster[]) {
+  const ids = new Map(
+    previous
+      .filter((cluster) => cluster.id)
+      .map((cluster) => [clusterKey(cluster.label), cluster.id as string])
+  );
+  return clusters.map((cluster) => {
+    const id = ids.get(clusterKey(cluster.label));
+    return id ? { ...cluster, id } : cluster;
+  });
+}
+
+function applyMoodCorrections(run: MoodRun, corrections: Correction[]): MoodRun {
+  const byIndex = overrides(corrections, "classification");
+  if (!byIndex.size || !run.outputs.items) return run;
+  const items = run.outputs.items.map((item) => ({ ...item, ...byIndex.get(item.index) }));
+  const snippets = run.outputs.snippets ?? [];
+  const clustersChanged = corrections.some((correction) => correction.field === "cluster");
+  const clusters =
+    clustersChanged || !run.outputs.clusters?.length
+      ? keepClusterIds(deriveClusters(items, snippets), run.outputs.clusters ?? [])
+      : run.outputs.clusters;
+  return {
+    ...run,
+    outputs: {
+      ...run.outputs,
+      items,
+      clusters,
+      emotions: computeEmotionStats(items),
+      clusterEmotions: computeClusterEmotions(items),
+      suggestions: rankSuggestions(
+        run.inputs.topic,
+        clusterCandidates(items, snippets, clusters),
+        new Date(run.createdAt)
+      ),
+    },
+  };
+}
+
+function applyAnalyzeCorrections(run: AnalyzeRun, corrections: Correction[]): AnalyzeRun {
+  const byIndex = overrides(corrections, "opportunity");
+  const stageD = run.outputs.D;
+  if (!byIndex.size || !stageD) return run;
+  return {
+    ...run,
+    outputs: {
+      ...run.outputs,
+      D: {
+        ...stageD,
+        scored: stageD.scored.map((entry, index) => ({ ...entry, ...byIndex.get(index) })),
+      },
+    },
+  };
+}
+
+export function applyCorrections(run: RunRecord, corrections: Correction[]): RunRecord {
+  return run.kind === "mood"
+    ? applyMoodCorrections(run, corrections)
+    : applyAnalyzeCorrections(run, corrections);
+}
+
+export async function getCorrectedRun(id: string) {
+  const run = await getRun(id);
+  if (!run) return null;
+  const corrections = await listCorrections(id);
+  return { run: applyCorrections(run, corrections), corrections };
+}
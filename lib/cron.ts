@@ -0,0 +1,113 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week),
+// evaluated in server local time. Supports *, lists, ranges, steps and the
+// @hourly/@daily/@weekly/@monthly shortcuts.
+
+const SHORTCUTS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const FIELD_RANGES: [number, number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+const MAX_STEPS = 366 * 24 * 60;
+
+export type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;
+  anyWeekday: boolean;
+};
+
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronError";
+  }
+}
+
+function parseField(field: string, [min, max]: [number, number]) {
+  const values = new Set<number>();
+  field.split(",").forEach((part) => {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronError(`Invalid step "${part}".`);
+    }
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [from, to] = range.split("-").map(Number);
+      start = from;
+      end = to ?? (stepText === undefined ? from : max);
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new CronError(`Value "${part}" is outside ${min}-${max}.`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  });
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const normalized = SHORTCUTS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronError("Expected five fields: minute hour day month weekday.");
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((field, index) =>
+    parseField(field, FIELD_RANGES[index])
+  );
+  // Sunday may be written as 0 or 7.
+  if (weekdays.delete(7)) weekdays.add(0);
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === "*",
+    anyWeekday: fields[4] === "*",
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date) {
+  const dayMatch = schedule.days.has(date.getDate());
+  const weekdayMatch = schedule.weekdays.has(date.getDay());
+  if (schedule.anyDay) return weekdayMatch;
+  if (schedule.anyWeekday) return dayMatch;
+  return dayMatch || weekdayMatch;
+}
+
+export function nextRunAfter(expression: string, after: Date = new Date()) {
+  const schedule = parseCron(expression);
+  const candidate = new Date(after);
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+  for (let i = 0; i < MAX_STEPS; i += 1) {
+    if (!schedule.months.has(candidate.getMonth() + 1) || !matchesDay(schedule, candidate)) {
+      candidate.setHours(0, 0, 0, 0);
+      candidate.setDate(candidate.getDate() + 1);
+      continue;
+    }
+    if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setMinutes(0, 0, 0);
+      candidate.setHours(candidate.getHours() + 1);
+      continue;
+    }
+    if (schedule.minutes.has(candidate.getMinutes())) return candidate;
+    candidate.setMinutes(candidate.getMinutes() + 1);
+  }
+  throw new CronError(`Schedule "${expression}" never fires.`);
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import fixture from "@/fixtures/retrieval/default.json";
+import { enforceTimeWindow, parseDate } from "@/lib/dates";
+import type { Snippet } from "@/lib/models";
+
+describe("enforceTimeWindow", () => {
+  it("keeps every default fixture snippet inside a 7 day window, whatever today is", () => {
+    const now = new Date("2031-03-05T12:00:00Z");
+    const { kept, report } = enforceTimeWindow(fixture, "7 days", { now, mode: "drop" });
+    expect(kept).toHaveLength(fixture.length);
+    expect(report).toMatchObject({ dropped: 0, missing: 0 });
+    kept.forEach((item) => expect(parseDate(item.publishedAt)).not.toBeNull());
+  });
+
+  it("drops items older than the window in drop mode and flags them in flag mode", () => {
+    const now = new Date("2026-10-19T00:00:00Z");
+    const items: Snippet[] = [
+      { title: "Recent", snippet: "", url: "https://a.com/", publishedAt: "2026-10-18" },
+      { title: "Old", snippet: "", url: "https://b.com/", publishedAt: "2026-09-01" },
+      { title: "Undated", snippet: "", url: "https://c.com/", publishedAt: "" },
+    ];
+    const dropped = enforceTimeWindow(items, "7 days", { now, mode: "drop" });
+    expect(dropped.kept.map((item) => item.title)).toEqual(["Recent", "Undated"]);
+    expect(dropped.report).toMatchObject({ dated: 1, missing: 1, outsideWindow: 1, dropped: 1 });
+
+    const flagged = enforceTimeWindow(items, "7 days", { now, mode: "flag" });
+    expect(flagged.kept.map((item) => item.dateStatus)).toEqual([
+      "dated",
+      "outside_window",
+      "missing",
+    ]);
+  });
+
+  it("without a window keeps old items but still drops misparsed future dates", () => {
+    const now = new Date("2026-10-19T00:00:00Z");
+    const items: Snippet[] = [
+      { title: "Old", snippet: "", url: "https://a.com/", publishedAt: "2019-01-01" },
+      { title: "Soon", snippet: "", url: "https://b.com/", publishedAt: "2026-10-19T20:00:00Z" },
+      { title: "Future", snippet: "", url: "https://c.com/", publishedAt: "2027-10-19" },
+    ];
+    const { kept, report } = enforceTimeWindow(items, undefined, { now, mode: "drop" });
+    expect(kept.map((item) => item.title)).toEqual(["Old", "Soon"]);
+    expect(report).toMatchObject({ timeWindow: null, from: null, outsideWindow: 1, dropped: 1 });
+  });
+});
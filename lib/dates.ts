@@ -0,0 +1,210 @@
+import type { DateStatus, DateWindowReport, TimeWindowMode } from "@/lib/contracts";
+import type { Snippet } from "@/lib/models";
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const UNITS: [RegExp, number][] = [
+  [/^(s|secs?|seconds?)$/, 1000],
+  [/^(m|mins?|minutes?)$/, MINUTE],
+  [/^(h|hrs?|hours?)$/, HOUR],
+  [/^(d|days?)$/, DAY],
+  [/^(w|wks?|weeks?)$/, 7 * DAY],
+  [/^(mo|mos|months?)$/, 30 * DAY],
+  [/^(y|yrs?|years?)$/, 365 * DAY],
+];
+
+const MONTHS = [
+  "jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec",
+];
+
+// Sources sometimes run a little ahead of our clock; anything further out is a misparse.
+const FUTURE_TOLERANCE = DAY;
+
+const ISO_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+const ZONE_PATTERN = /\b(GMT|UTC)\b|Z$|[+-]\d{2}:?\d{2}$/i;
+const TIME_PATTERN = /(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]\.?m\.?)?/i;
+
+function unitMs(token: string) {
+  return UNITS.find(([pattern]) => pattern.test(token))?.[1] ?? null;
+}
+
+function amount(token: string) {
+  if (/^(a|an|one)$/.test(token)) return 1;
+  const value = Number.parseFloat(token);
+  return Number.isFinite(value) ? value : null;
+}
+
+// "7 days", "24h", "past week", "last 3 months" → milliseconds.
+export function parseDuration(value: string) {
+  const text = value.trim().toLowerCase();
+  if (text === "today") return DAY;
+  const match = text.match(/(\d+(?:\.\d+)?|an?|one)?\s*([a-z]+)$/);
+  if (!match) return null;
+  const unit = unitMs(match[2]);
+  const count = match[1] ? amount(match[1]) : 1;
+  return unit && count ? unit * count : null;
+}
+
+function parseRelative(text: string, now: Date) {
+  if (/^(just now|now|today)$/.test(text)) return now.getTime();
+  if (text === "yesterday") return now.getTime() - DAY;
+  const match = text.match(/^(\d+(?:\.\d+)?|an?|one)\s*([a-z]+)\s+ago$/);
+  if (!match) return null;
+  const unit = unitMs(match[2]);
+  const count = amount(match[1]);
+  return unit && count !== null ? now.getTime() - unit * count : null;
+}
+
+function monthIndex(token: string) {
+  const index = MONTHS.indexOf(token.slice(0, 3).toLowerCase());
+  return index === -1 ? null : index;
+}
+
+function fullYear(token: string) {
+  const year = Number(token);
+  return token.length === 2 ? 2000 + year : year;
+}
+
+function timeOfDay(text: string) {
+  const match = text.match(TIME_PATTERN);
+  if (!match) return 0;
+  let hours = Number(match[1]);
+  const meridiem = match[4]?.toLowerCase().replace(/\./g, "");
+  if (meridiem === "pm" && hours < 12) hours += 12;
+  if (meridiem === "am" && hours === 12) hours = 0;
+  return hours * HOUR + Number(match[2]) * MINUTE + Number(match[3] ?? 0) * 1000;
+}
+
+// Rejects overflow such as 31/02, which Date.UTC would roll into March.
+function utcDate(year: number, month: number, day: number) {
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null;
+  const time = Date.UTC(year, month, day);
+  return new Date(time).getUTCDate() === day ? time : null;
+}
+
+// Locale formats without a zone are read as UTC.
+function parseLocale(text: string) {
+  const time = timeOfDay(text);
+  const stripped = text.replace(/^(mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?,?\s+/i, "");
+
+  const ymd = stripped.match(/^(\d{4})[/.](\d{1,2})[/.](\d{1,2})\b/);
+  if (ymd) {
+    const date = utcDate(Number(ymd[1]), Number(ymd[2]) - 1, Number(ymd[3]));
+    return date === null ? null : date + time;
+  }
+
+  // Dotted dates are day-first; slashed ones are month-first unless that is impossible.
+  const numeric = stripped.match(/^(\d{1,2})([/.-])(\d{1,2})\2(\d{2}|\d{4})\b/);
+  if (numeric) {
+    const first = Number(numeric[1]);
+    const second = Number(numeric[3]);
+    const dayFirst = numeric[2] === "." || first > 12;
+    const date = utcDate(
+      fullYear(numeric[4]),
+      (dayFirst ? second : first) - 1,
+      dayFirst ? first : second
+    );
+    return date === null ? null : date + time;
+  }
+
+  const dayMonth = stripped.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3,9})\.?,?\s+(\d{4})/i);
+  const monthDay = stripped.match(/^([a-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})/i);
+  const parts = dayMonth
+    ? { day: dayMonth[1], month: dayMonth[2], year: dayMonth[3] }
+    : monthDay
+      ? { day: monthDay[2], month: monthDay[1], year: monthDay[3] }
+      : null;
+  if (!parts) return null;
+  const month = monthIndex(parts.month);
+  if (month === null) return null;
+  const date = utcDate(Number(parts.year), month, Number(parts.day));
+  return date === null ? null : date + time;
+}
+
+export function parseDate(value: string, now = new Date()): number | null {
+  const text = value.trim();
+  if (!text) return null;
+  if (/^\d{10}$/.test(text)) return Number(text) * 1000;
+  if (/^\d{13}$/.test(text)) return Number(text);
+
+  if (ISO_PATTERN.test(text)) {
+    const hasTime = /T|\s/.test(text);
+    const zoned = hasTime && !ZONE_PATTERN.test(text) ? `${text.replace(" ", "T")}Z` : text;
+    const time = Date.parse(zoned);
+    return Number.isNaN(time) ? null : time;
+  }
+
+  const lower = text.toLowerCase();
+  const relative = parseRelative(lower, now);
+  if (relative !== null) return relative;
+
+  // RFC 2822 and other zoned strings are unambiguous enough for the built-in parser.
+  if (ZONE_PATTERN.test(text)) {
+    const time = Date.parse(text);
+    if (!Number.isNaN(time)) return time;
+  }
+  return parseLocale(lower);
+}
+
+export function normalizeDate(value: string, now = new Date()) {
+  const time = parseDate(value, now);
+  return time === null ? null : new Date(time).toISOString();
+}
+
+function windowMode(): TimeWindowMode {
+  return process.env.TIME_WINDOW_MODE === "flag" ? "flag" : "drop";
+}
+
+export type TimeWindowOptions = {
+  now?: Date;
+  mode?: TimeWindowMode;
+};
+
+// Normalizes publishedAt to UTC ISO strings and applies the requested window.
+// Undated items are kept and marked "missing"; items outside the window are
+// dropped or flagged depending on the mode.
+export function enforceTimeWindow<T extends Snippet>(
+  items: T[],
+  timeWindow?: string,
+  { now = new Date(), mode = windowMode() }: TimeWindowOptions = {}
+) {
+  const duration = timeWindow ? parseDuration(timeWindow) : null;
+  const from = duration ? now.getTime() - duration : null;
+  const to = now.getTime() + FUTURE_TOLERANCE;
+  const counts = { dated: 0, missing: 0, outsideWindow: 0, dropped: 0 };
+  const kept: T[] = [];
+
+  items.forEach((item) => {
+    const time = parseDate(item.publishedAt, now);
+    let dateStatus: DateStatus = "dated";
+    if (time === null) {
+      dateStatus = "missing";
+      counts.missing += 1;
+    } else if ((from !== null && time < from) || time > to) {
+      dateStatus = "outside_window";
+      counts.outsideWindow += 1;
+      if (mode === "drop") {
+        counts.dropped += 1;
+        return;
+      }
+    } else {
+      counts.dated += 1;
+    }
+    kept.push({
+      ...item,
+      publishedAt: time === null ? "" : new Date(time).toISOString(),
+      dateStatus,
+    });
+  });
+
+  const report: DateWindowReport = {
+    timeWindow: timeWindow ?? null,
+    from: from === null ? null : new Date(from).toISOString(),
+    to: new Date(now.getTime()).toISOString(),
+    mode,
+    ...counts,
+  };
+  return { kept, report };
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { canonicalUrl, dedupeItems } from "@/lib/dedup";
+import type { Snippet } from "@/lib/models";
+
+const BODY =
+  "City council approves new budget for public transit expansion after months of heated debate among residents and local businesses in the downtown core";
+
+function snippet(overrides: Partial<Snippet>): Snippet {
+  return {
+    title: "Untitled",
+    snippet: "",
+    url: "https://example.com/",
+    publishedAt: "",
+    ...overrides,
+  };
+}
+
+describe("canonicalUrl", () => {
+  it("strips utm and click-tracking params but keeps the rest sorted", () => {
+    expect(
+      canonicalUrl("https://example.com/story?utm_source=x&utm_medium=y&fbclid=abc&b=2&a=1")
+    ).toBe("https://example.com/story?a=1&b=2");
+  });
+
+  it("upgrades http, drops www, the fragment and trailing slashes", () => {
+    expect(canonicalUrl("http://www.Example.com/news/story/#comments")).toBe(
+      "https://example.com/news/story"
+    );
+  });
+
+  it("collapses amp hosts and amp paths", () => {
+    expect(canonicalUrl("https://amp.example.com/news/story")).toBe(
+      "https://example.com/news/story"
+    );
+    expect(canonicalUrl("https://example.com/news/story/amp/")).toBe(
+      "https://example.com/news/story"
+    );
+    expect(canonicalUrl("https://example.com/amp/news/story")).toBe(
+      "https://example.com/news/story"
+    );
+    expect(canonicalUrl("https://example.com/news/story.amp.html")).toBe(
+      "https://example.com/news/story.html"
+    );
+  });
+
+  it("unwraps AMP cache URLs", () => {
+    expect(
+      canonicalUrl("https://www-example-com.cdn.ampproject.org/c/s/www.example.com/news/story?amp=1")
+    ).toBe("https://example.com/news/story");
+  });
+
+  it("returns unparseable values trimmed", () => {
+    expect(canonicalUrl("  not a url ")).toBe("not a url");
+  });
+});
+
+describe("dedupeItems", () => {
+  it("merges canonical URL matches into the first occurrence", () => {
+    const { kept, report } = dedupeItems([
+      snippet({ title: "Budget vote", url: "https://www.example.com/a?utm_source=feed" }),
+      snippet({ title: "Weather", url: "http://example.com/a/" }),
+    ]);
+    expect(kept).toHaveLength(1);
+    expect(kept[0]).toMatchObject({
+      title: "Budget vote",
+      url: "https://www.example.com/a?utm_source=feed",
+    });
+    expect(report.clusters).toEqual([
+      {
+        url: "https://www.example.com/a?utm_source=feed",
+        title: "Budget vote",
+        merged: [{ url: "http://example.com/a/", title: "Weather", reason: "url", similarity: 1 }],
+      },
+    ]);
+  });
+
+  it("merges items with the same normalized title", () => {
+    const { kept, report } = dedupeItems([
+      snippet({ title: "Council approves transit budget", url: "https://a.com/1" }),
+      snippet({ title: "council approves transit budget!", url: "https://b.com/2" }),
+    ]);
+    expect(kept.map((item) => item.url)).toEqual(["https://a.com/1"]);
+    expect(report.clusters[0].merged).toEqual([
+      {
+        url: "https://b.com/2",
+        title: "council approves transit budget!",
+        reason: "title",
+        similarity: 1,
+      },
+    ]);
+  });
+
+  it("merges near-duplicate title and body text via MinHash", () => {
+    const { kept, report } = dedupeItems([
+      snippet({ title: "Council approves transit budget", snippet: BODY, url: "https://a.com/1" }),
+      snippet({ title: "Council OKs transit budget", snippet: BODY, url: "https://b.com/2" }),
+      snippet({
+        title: "Storm warning issued",
+        snippet: "Forecasters expect heavy rain and strong winds along the coast tonight",
+        url: "https://c.com/3",
+      }),
+    ]);
+    expect(kept.map((item) => item.url)).toEqual(["https://a.com/1", "https://c.com/3"]);
+    const [merged] = report.clusters[0].merged;
+    expect(merged).toMatchObject({ url: "https://b.com/2", reason: "similar" });
+    expect(merged.similarity).toBeGreaterThanOrEqual(0.7);
+    expect(merged.similarity).toBeLessThanOrEqual(1);
+  });
+
+  it("keeps the first occurrence and groups every duplicate under it", () => {
+    const { kept, report } = dedupeItems([
+      snippet({ title: "Transit budget approved", url: "https://a.com/1" }),
+      snippet({ title: "Unrelated story", url: "https://b.com/2" }),
+      snippet({ title: "Transit budget approved", url: "https://c.com/3" }),
+      snippet({ title: "Another headline", url: "https://a.com/1/" }),
+    ]);
+    expect(kept.map((item) => item.title)).toEqual(["Transit budget approved", "Unrelated story"]);
+    expect(report).toMatchObject({ input: 4, invalid: 0, kept: 2 });
+    expect(report.clusters).toHaveLength(1);
+    expect(report.clusters[0].url).toBe("https://a.com/1");
+    expect(report.clusters[0].merged.map((item) => item.url)).toEqual([
+      "https://c.com/3",
+      "https://a.com/1/",
+    ]);
+  });
+
+  it("drops items without snippet text when requireSnippet is set", () => {
+    const items = [
+      snippet({ title: "Has body", snippet: "Some text", url: "https://a.com/1" }),
+      snippet({ title: "No body", url: "https://b.com/2" }),
+      snippet({ title: "", snippet: "No title", url: "https://c.com/3" }),
+    ];
+    expect(dedupeItems(items).report).toMatchObject({ input: 3, invalid: 1, kept: 2 });
+    const { kept, report } = dedupeItems(items, { requireSnippet: true });
+    expect(kept.map((item) => item.title)).toEqual(["Has body"]);
+    expect(report).toMatchObject({ input: 3, invalid: 2, kept: 1, clusters: [] });
+  });
+
+  it("collapses thousands of copies of one story", () => {
+    const items = Array.from({ length: 3000 }, (_, index) =>
+      snippet({
+        title: `Transit budget ${index % 2 ? "passes" : "approved"}`,
+        snippet: BODY,
+        url: `https://s${index}.com/`,
+      })
+    );
+    const { kept, report } = dedupeItems(items);
+    expect(kept).toHaveLength(1);
+    expect(report.clusters[0].merged).toHaveLength(2999);
+  });
+});
@@ -0,0 +1,207 @@
+import type { DedupReport, DuplicateReason } from "@/lib/contracts";
+import type { Snippet } from "@/lib/models";
+import { normalizeTitle } from "@/lib/similarity";
+
+// 20 bands of 4 rows make pairs above ~0.5 Jaccard likely LSH candidates;
+// candidates are then confirmed against SIMILARITY_THRESHOLD.
+const BANDS = 20;
+const ROWS = 4;
+const NUM_HASHES = BANDS * ROWS;
+const SHINGLE_SIZE = 3;
+const SIMILARITY_THRESHOLD = 0.7;
+
+const TRACKING_PARAMS = new Set([
+  "fbclid", "gclid", "dclid", "msclkid", "igshid", "mc_cid", "mc_eid", "ref", "ref_src",
+  "cmpid", "spm", "amp", "outputtype",
+]);
+
+function hashString(value: string) {
+  // FNV-1a, 32-bit.
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function mix(value: number) {
+  // murmur3 finalizer: turns one base hash into an independent-looking permutation.
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, index) => mix(index + 0x9e3779b9));
+
+// Same story, same URL: https, no www, no tracking params, fragment, trailing
+// slash or AMP variant (amp. hosts, /amp paths, AMP cache URLs).
+export function canonicalUrl(value: string) {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return value.trim();
+  }
+  let host = url.hostname.toLowerCase().replace(/^www\./, "");
+  let path = url.pathname;
+
+  const ampCache =
+    host.endsWith(".cdn.ampproject.org") && path.match(/^\/[cv]\/(s\/)?([^/]+)(\/.*)?$/);
+  if (ampCache) {
+    host = ampCache[2].toLowerCase().replace(/^www\./, "");
+    path = ampCache[3] ?? "/";
+  }
+  host = host.replace(/^amp\./, "");
+  path = path
+    .replace(/\/amp\/?$/i, "")
+    .replace(/\/amp\//i, "/")
+    .replace(/\.amp(\.html?)$/i, "$1")
+    .replace(/\/+$/, "");
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([key]) => {
+      const name = key.toLowerCase();
+      return !name.startsWith("utm_") && !TRACKING_PARAMS.has(name);
+    })
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length ? `?${new URLSearchParams(params).toString()}` : "";
+  return `https://${host}${path}${query}`;
+}
+
+function shingles(text: string) {
+  const tokens = normalizeTitle(text).split(" ").filter(Boolean);
+  if (tokens.length <= SHINGLE_SIZE) return new Set(tokens.length ? [tokens.join(" ")] : []);
+  const result = new Set<string>();
+  for (let index = 0; index + SHINGLE_SIZE <= tokens.length; index += 1) {
+    result.add(tokens.slice(index, index + SHINGLE_SIZE).join(" "));
+  }
+  return result;
+}
+
+function minHash(shingleSet: Set<string>) {
+  const signature = new Array<number>(NUM_HASHES).fill(0xffffffff);
+  shingleSet.forEach((shingle) => {
+    const base = hashString(shingle);
+    SEEDS.forEach((seed, index) => {
+      const value = mix(base ^ seed);
+      if (value < signature[index]) signature[index] = value;
+    });
+  });
+  return signature;
+}
+
+function estimateSimilarity(a: number[], b: number[]) {
+  let matches = 0;
+  for (let index = 0; index < NUM_HASHES; index += 1) {
+    if (a[index] === b[index]) matches += 1;
+  }
+  return matches / NUM_HASHES;
+}
+
+type Link = { reason: DuplicateReason; similarity: number };
+
+export type DedupOptions = {
+  // Drop items without snippet text (mood snippets need a body to classify).
+  requireSnippet?: boolean;
+};
+
+// Keeps the first item of each duplicate group, in input order and with its
+// original URL, and reports which items were merged into it and why.
+export function dedupeItems<T extends Snippet>(items: T[], { requireSnippet }: DedupOptions = {}) {
+  const candidates = items.filter(
+    (item) => normalizeTitle(item.title) && item.url.trim() && (!requireSnippet || item.snippet)
+  );
+  // Canonical URLs are only the match key; reported and kept items keep theirs.
+  const urlKeys = candidates.map((item) => canonicalUrl(item.url));
+
+  const parent = candidates.map((_, index) => index);
+  const links = new Map<number, Link>();
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  // The earlier item always becomes the root so the first occurrence is kept.
+  const union = (a: number, b: number, link: Link) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) return;
+    const [root, child] = rootA < rootB ? [rootA, rootB] : [rootB, rootA];
+    parent[child] = root;
+    if (!links.has(child)) links.set(child, link);
+  };
+
+  const firstByKey = (key: (item: T, index: number) => string, reason: DuplicateReason) => {
+    const seen = new Map<string, number>();
+    candidates.forEach((item, index) => {
+      const value = key(item, index);
+      const first = seen.get(value);
+      if (first === undefined) seen.set(value, index);
+      else union(first, index, { reason, similarity: 1 });
+    });
+  };
+  firstByKey((_, index) => urlKeys[index], "url");
+  firstByKey((item) => normalizeTitle(item.title), "title");
+
+  const signatures = candidates.map((item) => minHash(shingles(`${item.title} ${item.snippet}`)));
+  for (let band = 0; band < BANDS; band += 1) {
+    const buckets = new Map<string, number[]>();
+    signatures.forEach((signature, index) => {
+      const key = signature.slice(band * ROWS, (band + 1) * ROWS).join(",");
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(index);
+      else buckets.set(key, [index]);
+    });
+    // Each member is compared against one representative per group already in
+    // the bucket, so a bucket full of copies of one story stays linear.
+    buckets.forEach((bucket) => {
+      const representatives: number[] = [];
+      bucket.forEach((index) => {
+        const match = representatives.find((representative) => {
+          if (find(representative) === find(index)) return true;
+          const similarity = estimateSimilarity(signatures[representative], signatures[index]);
+          if (similarity < SIMILARITY_THRESHOLD) return false;
+          union(representative, index, { reason: "similar", similarity });
+          return true;
+        });
+        if (match === undefined) representatives.push(index);
+      });
+    });
+  }
+
+  const kept: T[] = [];
+  const groups = new Map<number, DedupReport["clusters"][number]>();
+  candidates.forEach((item, index) => {
+    const root = find(index);
+    if (root === index) {
+      kept.push(item);
+      return;
+    }
+    const keeper = candidates[root];
+    const group = groups.get(root) ?? { url: keeper.url, title: keeper.title, merged: [] };
+    // Every merged item was a root when it was attached, so it has a link.
+    const link = links.get(index) as Link;
+    group.merged.push({
+      url: item.url,
+      title: item.title,
+      reason: link.reason,
+      similarity: Math.round(link.similarity * 100) / 100,
+    });
+    groups.set(root, group);
+  });
+
+  const report: DedupReport = {
+    input: items.length,
+    invalid: items.length - candidates.length,
+    kept: kept.length,
+    clusters: Array.from(groups.values()),
+  };
+  return { kept, report };
+}
@@ -0,0 +1,94 @@
+import type {
+  ClassifiedSnippet,
+  ClusterEmotionBreakdown,
+  EmotionStats,
+} from "@/lib/models";
+
+export const EMOTION_TAXONOMY: Record<string, string[]> = {
+  Anger: ["angry", "anger", "outrage", "outraged", "furious", "rage", "indignant", "indignation", "hostile"],
+  Fear: ["fear", "afraid", "scared", "fearful", "alarm", "alarmed", "panic", "dread", "terrified"],
+  Concern: ["concern", "concerned", "worried", "worry", "anxious", "anxiety", "uneasy", "apprehensive", "nervous", "cautious"],
+  Frustration: ["frustration", "frustrated", "annoyed", "annoyance", "irritated", "irritation", "fed up", "impatient"],
+  Sadness: ["sad", "sadness", "grief", "disappointed", "disappointment", "despair", "sorrow", "dismay", "dismayed"],
+  Skepticism: ["skeptical", "skepticism", "sceptical", "doubt", "doubtful", "distrust", "mistrust", "cynical", "cynicism", "suspicious"],
+  Hope: ["hope", "hopeful", "optimism", "optimistic", "encouraged", "anticipation", "expectant"],
+  Joy: ["joy", "happy", "happiness", "excited", "excitement", "enthusiasm", "enthusiastic", "pride", "proud", "celebratory", "relief", "relieved"],
+  Trust: ["trust", "trusting", "confidence", "confident", "supportive", "support", "approval", "reassured"],
+  Surprise: ["surprise", "surprised", "shock", "shocked", "astonished", "amazed"],
+  Disgust: ["disgust", "disgusted", "contempt", "revulsion", "appalled"],
+  Neutral: ["neutral", "mixed", "indifferent", "informational", "factual", "ambivalent", "curious", "curiosity"],
+};
+
+const synonymIndex = new Map<string, string>();
+Object.entries(EMOTION_TAXONOMY).forEach(([canonical, synonyms]) => {
+  synonymIndex.set(canonical.toLowerCase(), canonical);
+  synonyms.forEach((synonym) => synonymIndex.set(synonym, canonical));
+});
+
+function cleanEmotion(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function titleCase(value: string) {
+  return value.replace(/\b[a-z]/g, (letter) => letter.toUpperCase());
+}
+
+export function normalizeEmotion(raw: string) {
+  const cleaned = cleanEmotion(raw);
+  if (!cleaned) return "Neutral";
+  const direct = synonymIndex.get(cleaned);
+  if (direct) return direct;
+  const words = cleaned.split(" ");
+  for (const word of words) {
+    const match = synonymIndex.get(word);
+    if (match) return match;
+  }
+  return titleCase(cleaned);
+}
+
+function roundPercentage(count: number, total: number) {
+  if (!total) return 0;
+  return Math.round((count / total) * 1000) / 10;
+}
+
+export function computeEmotionStats(items: Pick<ClassifiedSnippet, "emotion">[]) {
+  const counts = new Map<string, number>();
+  items.forEach((item) => {
+    const emotion = normalizeEmotion(item.emotion);
+    counts.set(emotion, (counts.get(emotion) ?? 0) + 1);
+  });
+  const total = items.length;
+  return Array.from(counts.entries())
+    .map<EmotionStats>(([emotion, count]) => ({
+      emotion,
+      count,
+      percentage: roundPercentage(count, total),
+    }))
+    .sort((a, b) => b.count - a.count || a.emotion.localeCompare(b.emotion));
+}
+
+export function computeClusterEmotions(items: ClassifiedSnippet[]) {
+  const byCluster = new Map<string, { label: string; items: ClassifiedSnippet[] }>();
+  items.forEach((item) => {
+    const label = item.cluster.trim();
+    const key = label.toLowerCase();
+    const entry = byCluster.get(key) ?? { label, items: [] };
+    entry.items.push(item);
+    byCluster.set(key, entry);
+  });
+  return Array.from(byCluster.values())
+    .map<ClusterEmotionBreakdown>((entry) => ({
+      cluster: entry.label,
+      total: entry.items.length,
+      emotions: computeEmotionStats(entry.items),
+    }))
+    .sort((a, b) => b.total - a.total);
+}
+
+export function normalizeClassifiedEmotions(items: ClassifiedSnippet[]) {
+  return items.map((item) => ({ ...item, emotion: normalizeEmotion(item.emotion) }));
+}
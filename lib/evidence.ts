@@ -0,0 +1,90 @@
+import { parseDate } from "@/lib/dates";
+import type { ClassifiedSnippet, DateStatus, Snippet } from "@/lib/models";
+import { domainOf } from "@/lib/sources";
+
+export const EVIDENCE_FACETS = ["domain", "emotion", "concern", "narrative", "cluster"] as const;
+
+export type EvidenceFacet = (typeof EVIDENCE_FACETS)[number];
+
+export type EvidenceRow = Record<EvidenceFacet, string> & {
+  index: number;
+  title: string;
+  snippet: string;
+  url: string;
+  publishedAt: string;
+  dateStatus?: DateStatus;
+};
+
+export type EvidenceSortKey = EvidenceFacet | "publishedAt" | "title";
+
+export type EvidenceFilter = {
+  search: string;
+  facets: Partial<Record<EvidenceFacet, string>>;
+};
+
+export const UNCLASSIFIED = "Unclassified";
+
+export function evidenceRows(snippets: Snippet[], items: ClassifiedSnippet[]): EvidenceRow[] {
+  const byIndex = new Map(items.map((item) => [item.index, item]));
+  return snippets.map((snippet, index) => {
+    const item = byIndex.get(index);
+    return {
+      index,
+      title: snippet.title,
+      snippet: snippet.snippet,
+      url: snippet.url,
+      publishedAt: snippet.publishedAt,
+      dateStatus: snippet.dateStatus,
+      domain: domainOf(snippet.url) || "unknown",
+      emotion: item?.emotion ?? UNCLASSIFIED,
+      concern: item?.concern ?? UNCLASSIFIED,
+      narrative: item?.narrative ?? UNCLASSIFIED,
+      cluster: item?.cluster ?? UNCLASSIFIED,
+    };
+  });
+}
+
+function matchesSearch(row: EvidenceRow, search: string) {
+  const needle = search.trim().toLowerCase();
+  if (!needle) return true;
+  return [row.title, row.snippet, ...EVIDENCE_FACETS.map((facet) => row[facet])].some((value) =>
+    value.toLowerCase().includes(needle)
+  );
+}
+
+function matchesFacets(row: EvidenceRow, facets: EvidenceFilter["facets"], skip?: EvidenceFacet) {
+  return EVIDENCE_FACETS.every(
+    (facet) => facet === skip || !facets[facet] || row[facet] === facets[facet]
+  );
+}
+
+export function filterEvidence(rows: EvidenceRow[], filter: EvidenceFilter) {
+  return rows.filter(
+    (row) => matchesSearch(row, filter.search) && matchesFacets(row, filter.facets)
+  );
+}
+
+// Counts for one facet ignore that facet's own selection so other values stay reachable.
+export function facetCounts(rows: EvidenceRow[], facet: EvidenceFacet, filter: EvidenceFilter) {
+  const counts = new Map<string, number>();
+  rows
+    .filter((row) => matchesSearch(row, filter.search) && matchesFacets(row, filter.facets, facet))
+    .forEach((row) => counts.set(row[facet], (counts.get(row[facet]) ?? 0) + 1));
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+export function sortEvidence(rows: EvidenceRow[], key: EvidenceSortKey, direction: "asc" | "desc") {
+  const sign = direction === "asc" ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    if (key === "publishedAt") {
+      const left = parseDate(a.publishedAt);
+      const right = parseDate(b.publishedAt);
+      // Undated rows always sink to the bottom.
+      if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1;
+      return (left - right) * sign;
+    }
+    return a[key].localeCompare(b[key]) * sign;
+  });
+}
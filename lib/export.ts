@@ -0,0 +1,309 @@
+import { clusterKey, deriveClusters } from "@/lib/clusters";
+import type { ExportFormat, Snippet } from "@/lib/contracts";
+import type { AnalyzeRun, MoodRun, RunRecord } from "@/lib/models";
+import {
+  renderCsv,
+  renderHtml,
+  renderMarkdown,
+  type Report,
+  type ReportBlock,
+  type ReportInline,
+} from "@/lib/report";
+import { domainOf } from "@/lib/sources";
+import { slugify } from "@/lib/utils";
+
+export type ExportFile = {
+  filename: string;
+  contentType: string;
+  body: string;
+};
+
+function fileSlug(value: string) {
+  return slugify(value).slice(0, 60) || "run";
+}
+
+function subtitle(run: RunRecord) {
+  const inputs =
+    run.kind === "analyze"
+      ? [run.inputs.niche, run.inputs.platform, run.inputs.audience, run.inputs.country]
+      : [run.inputs.topic, run.inputs.region, run.inputs.timeWindow, run.inputs.sourceFocus];
+  return [...inputs.filter(Boolean), `generated ${new Date(run.createdAt).toUTCString()}`].join(
+    " · "
+  );
+}
+
+function sourceLink(snippet: Pick<Snippet, "title" | "url">): ReportInline {
+  return { text: snippet.title || snippet.url, url: snippet.url };
+}
+
+function sourceList(snippets: Snippet[]): ReportBlock {
+  return {
+    kind: "list",
+    ordered: true,
+    items: snippets.map((snippet) => [
+      sourceLink(snippet),
+      {
+        text: ` — ${[domainOf(snippet.url), snippet.publishedAt].filter(Boolean).join(", ")}`,
+      },
+    ]),
+  };
+}
+
+function bullets(values: string[]): ReportBlock {
+  return { kind: "list", items: values.map((value) => [{ text: value }]) };
+}
+
+function analyzeReport(run: AnalyzeRun): Report {
+  const signals = run.outputs.B?.normalized ?? run.outputs.A?.signals ?? [];
+  const opportunities = run.outputs.C?.opportunities ?? [];
+  const gaps = run.outputs.C?.gaps ?? [];
+  const scored = run.outputs.D?.scored ?? [];
+  const playbook = run.outputs.E?.playbook;
+  const blocks: ReportBlock[] = [];
+
+  if (opportunities.length) {
+    blocks.push({ kind: "heading", level: 2, text: "Opportunities" });
+    opportunities.forEach((opportunity) => {
+      const score = scored.find((entry) => entry.title === opportunity.title);
+      blocks.push({
+        kind: "heading",
+        level: 3,
+        text: score
+          ? `${opportunity.title} (${score.score}/100${score.recommended ? ", recommended" : ""})`
+          : opportunity.title,
+      });
+      if (opportunity.description) {
+        blocks.push({ kind: "paragraph", parts: [{ text: opportunity.description }] });
+      }
+      blocks.push(
+        bullets(
+          [
+            opportunity.platformFit && `Platform fit: ${opportunity.platformFit}`,
+            opportunity.audienceAngle && `Audience angle: ${opportunity.audienceAngle}`,
+            opportunity.newness && `Why now: ${opportunity.newness}`,
+            score?.risk && `Risk: ${score.risk}`,
+            score?.effort && `Effort: ${score.effort}`,
+            score?.rationale && `Rationale: ${score.rationale}`,
+          ].filter((value): value is string => Boolean(value))
+        )
+      );
+      const evidence = opportunity.evidenceIndexes
+        .map((index) => signals[index])
+        .filter(Boolean);
+      if (evidence.length) {
+        blocks.push({
+          kind: "paragraph",
+          parts: [
+            { text: "Sources: " },
+            ...evidence.flatMap((snippet, index) => [
+              ...(index ? [{ text: ", " }] : []),
+              sourceLink(snippet),
+            ]),
+          ],
+        });
+      }
+    });
+  }
+
+  if (gaps.length) {
+    blocks.push({ kind: "heading", level: 2, text: "Content gaps" });
+    blocks.push({
+      kind: "table",
+      headers: ["Gap", "Why now", "Suggested content"],
+      rows: gaps.map((gap) => [gap.gap, gap.whyNow, gap.suggestedContent]),
+    });
+  }
+
+  if (playbook) {
+    blocks.push({ kind: "heading", level: 2, text: "Playbook" });
+    if (playbook.positioning) {
+      blocks.push({ kind: "paragraph", parts: [{ text: playbook.positioning }] });
+    }
+    const sections: [string, string[]][] = [
+      ["Content pillars", playbook.contentPillars],
+      ["Weekly plan", playbook.weeklyPlan],
+      ["Monetization ideas", playbook.monetizationIdeas],
+      ["Collaboration targets", playbook.collaborationTargets],
+      ["Watchouts", playbook.watchouts],
+    ];
+    sections
+      .filter(([, values]) => values.length)
+      .forEach(([title, values]) => {
+        blocks.push({ kind: "heading", level: 3, text: title });
+        blocks.push(bullets(values));
+      });
+  }
+
+  if (signals.length) {
+    blocks.push({ kind: "heading", level: 2, text: "Sources" });
+    blocks.push(sourceList(signals));
+  }
+
+  return { title: run.name, subtitle: subtitle(run), blocks };
+}
+
+function moodReport(run: MoodRun): Report {
+  const snippets = run.outputs.snippets ?? [];
+  const items = run.outputs.items ?? [];
+  const emotions = run.outputs.emotions ?? [];
+  const suggestions = run.outputs.suggestions ?? [];
+  const clusters = run.outputs.clusters?.length
+    ? run.outputs.clusters
+    : deriveClusters(items, snippets);
+  const blocks: ReportBlock[] = [];
+
+  if (emotions.length) {
+    blocks.push({ kind: "heading", level: 2, text: "Emotions" });
+    blocks.push({
+      kind: "table",
+      headers: ["Emotion", "Snippets", "Share"],
+      rows: emotions.map((entry) => [entry.emotion, String(entry.count), `${entry.percentage}%`]),
+    });
+  }
+
+  if (run.outputs.volatility) {
+    blocks.push({
+      kind: "paragraph",
+      parts: [
+        {
+          text: `Volatility ${run.outputs.volatility.score}/100 compared with the run on ${new Date(
+            run.outputs.volatility.previousRunAt
+          ).toUTCString()}.`,
+        },
+      ],
+    });
+  }
+
+  if (clusters.length) {
+    blocks.push({ kind: "heading", level: 2, text: "Narrative clusters" });
+    clusters.forEach((cluster) => {
+      blocks.push({ kind: "heading", level: 3, text: `${cluster.label} (${cluster.size})` });
+      const evidence = items
+        .filter((item) => clusterKey(item.cluster) === clusterKey(cluster.label))
+        .map((item) => snippets[item.index])
+        .filter((snippet): snippet is Snippet => Boolean(snippet?.url));
+      blocks.push({
+        kind: "list",
+        items: evidence.length
+          ? evidence.map((snippet) => [sourceLink(snippet)])
+          : cluster.exampleHeadlines.map((headline) => [{ text: headline }]),
+      });
+    });
+  }
+
+  if (suggestions.length) {
+    blocks.push({ kind: "heading", level: 2, text: "Ranked narratives" });
+    blocks.push({
+      kind: "list",
+      ordered: true,
+      items: suggestions.map((suggestion) => [
+        { text: `${suggestion.title} — score ${suggestion.score}, ${suggestion.confidenceLabel} confidence. ` },
+        { text: suggestion.summary },
+      ]),
+    });
+  }
+
+  if (snippets.length) {
+    blocks.push({ kind: "heading", level: 2, text: "Sources" });
+    blocks.push(sourceList(snippets));
+  }
+
+  return { title: run.name, subtitle: subtitle(run), blocks };
+}
+
+function analyzeCsv(run: AnalyzeRun) {
+  const signals = run.outputs.B?.normalized ?? run.outputs.A?.signals ?? [];
+  const scored = run.outputs.D?.scored ?? [];
+  const suggestions = run.outputs.D?.suggestions ?? [];
+  return renderCsv(
+    ["type", "title", "score", "recommended", "risk", "effort", "evidence_score", "url", "published_at", "summary"],
+    [
+      ...(run.outputs.C?.opportunities ?? []).map((opportunity) => {
+        const score = scored.find((entry) => entry.title === opportunity.title);
+        const suggestion = suggestions.find((entry) => entry.title === opportunity.title);
+        return {
+          type: "opportunity",
+          title: opportunity.title,
+          score: score?.score,
+          recommended: score?.recommended,
+          risk: score?.risk,
+          effort: score?.effort,
+          evidence_score: suggestion?.score,
+          url: opportunity.evidenceIndexes
+            .map((index) => signals[index]?.url)
+            .filter(Boolean)
+            .join(" "),
+          summary: opportunity.description,
+        };
+      }),
+      ...signals.map((signal) => ({
+        type: "signal",
+        title: signal.title,
+        url: signal.url,
+        published_at: signal.publishedAt,
+        summary: signal.snippet,
+      })),
+    ]
+  );
+}
+
+function moodCsv(run: MoodRun) {
+  const snippets = run.outputs.snippets ?? [];
+  const items = run.outputs.items ?? [];
+  return renderCsv(
+    ["type", "title", "score", "emotion", "concern", "narrative", "cluster", "url", "published_at", "summary"],
+    [
+      ...(run.outputs.suggestions ?? []).map((suggestion) => ({
+        type: "narrative",
+        title: suggestion.title,
+        score: suggestion.score,
+        url: suggestion.provenance.sources.map((source) => source.url).join(" "),
+        summary: suggestion.summary,
+      })),
+      ...snippets.map((snippet, index) => {
+        const item = items.find((entry) => entry.index === index);
+        return {
+          type: "signal",
+          title: snippet.title,
+          emotion: item?.emotion,
+          concern: item?.concern,
+          narrative: item?.narrative,
+          cluster: item?.cluster,
+          url: snippet.url,
+          published_at: snippet.publishedAt,
+          summary: snippet.snippet,
+        };
+      }),
+    ]
+  );
+}
+
+export function exportRun(run: RunRecord, format: ExportFormat): ExportFile {
+  const base = fileSlug(run.name);
+  if (format === "json") {
+    return {
+      filename: `${base}.json`,
+      contentType: "application/json; charset=utf-8",
+      body: JSON.stringify(run, null, 2),
+    };
+  }
+  if (format === "csv") {
+    return {
+      filename: `${base}.csv`,
+      contentType: "text/csv; charset=utf-8",
+      body: run.kind === "analyze" ? analyzeCsv(run) : moodCsv(run),
+    };
+  }
+  const report = run.kind === "analyze" ? analyzeReport(run) : moodReport(run);
+  return format === "markdown"
+    ? {
+        filename: `${base}.md`,
+        contentType: "text/markdown; charset=utf-8",
+        body: renderMarkdown(report),
+      }
+    : {
+        filename: `${base}.html`,
+        contentType: "text/html; charset=utf-8",
+        body: renderHtml(report),
+      };
+}
@@ -0,0 +1,15 @@
+// Error message from a failed JSON API response, including the first
+// validation detail when the route sent one.
+export async function readError(response: Response, fallback: string) {
+  try {
+    const payload = (await response.json()) as {
+      error?: string;
+      details?: { path: string; message: string }[];
+    };
+    const detail = Array.isArray(payload.details) ? payload.details[0] : undefined;
+    const message = payload.error ?? fallback;
+    return detail ? `${message} ${detail.path}: ${detail.message}` : message;
+  } catch {
+    return fallback;
+  }
+}
@@ -1,55 +1,243 @@
-export type Snippet = {
-  title: string;
-  snippet: string;
-  url: string;
-  publishedAt: string;
+import type {
+  AlertCondition,
+  AnalyzePayload,
+  ClassifiedSnippet,
+  EmotionStats,
+  NarrativeCluster,
+  PipelineErrorCode,
+  Snippet,
+  SourceMetrics,
+  StageData,
+  Suggestion,
+} from "@/lib/contracts";
+
+export type {
+  ClassifiedSnippet,
+  DateStatus,
+  DateWindowReport,
+  DedupReport,
+  EmotionStats,
+  NarrativeCluster,
+  Snippet,
+  SourceMetrics,
+  SourcePolicy,
+  SourcePolicyReport,
+  SourceSignal,
+  Suggestion,
+  SuggestionSignals,
+} from "@/lib/contracts";
+
+export type MoodQuery = {
+  topic: string;
+  region: string;
+  timeWindow: string;
+  sourceFocus: string;
 };
 
-export type ClassifiedSnippet = {
-  index: number;
-  emotion: string;
-  concern: string;
-  narrative: string;
+export type ClusterEmotionBreakdown = {
   cluster: string;
+  total: number;
+  emotions: EmotionStats[];
 };
 
-export type NarrativeCluster = {
-  label: string;
-  size: number;
-  exampleHeadlines: string[];
+export type EmotionDelta = {
+  emotion: string;
+  previous: number;
+  current: number;
+  delta: number;
 };
 
-export type EmotionStats = {
-  emotion: string;
-  count: number;
-  percentage: number;
+export type VolatilityReport = {
+  score: number;
+  emotionShift: number;
+  clusterChurn: number;
+  emotionDeltas: EmotionDelta[];
+  appearedClusters: string[];
+  // Registry IDs (or label keys for unregistered clusters) of appearedClusters.
+  appearedClusterIds?: string[];
+  disappearedClusters: string[];
+  previousRunAt: string;
 };
 
-export type SourceSignal = {
-  title: string;
-  snippet: string;
-  url: string;
-  domain: string;
-  publishedAt: string;
+
+export type MoodResult = {
+  snippets: Snippet[];
+  items: ClassifiedSnippet[];
+  clusters: NarrativeCluster[];
+  emotions: EmotionStats[];
+  clusterEmotions: ClusterEmotionBreakdown[];
+  suggestions: Suggestion[];
+  volatility: VolatilityReport | null;
+  sourceMetrics?: SourceMetrics;
+};
+
+export type StageTiming = {
+  stage: string;
+  startedAt: string;
+  completedAt?: string;
+  durationMs?: number;
+  status: "running" | "complete" | "error";
+};
+
+export type RunError = {
+  stage: string;
+  message: string;
+  code?: PipelineErrorCode;
+};
+
+type RunBase = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  timings: StageTiming[];
+  errors: RunError[];
+};
+
+export type AnalyzeRun = RunBase & {
+  kind: "analyze";
+  inputs: AnalyzePayload;
+  outputs: Partial<StageData>;
+};
+
+export type MoodRun = RunBase & {
+  kind: "mood";
+  inputs: MoodQuery;
+  outputs: Partial<MoodResult>;
 };
 
-export type SuggestionSignals = {
-  relevance: number;
-  recency: number;
-  diversity: number;
-  rationale: string[];
+export type RunRecord = AnalyzeRun | MoodRun;
+
+export type RunSummary = Pick<RunRecord, "id" | "kind" | "name" | "createdAt" | "updatedAt"> & {
+  inputs: AnalyzePayload | MoodQuery;
+  failed: boolean;
 };
 
-export type Suggestion = {
+type WatchlistBase = {
   id: string;
+  name: string;
+  schedule: string;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  nextRunAt: string | null;
+  lastRunAt?: string;
+  lastRunId?: string;
+  lastError?: string;
+};
+
+export type MoodWatchlist = WatchlistBase & {
+  kind: "mood";
+  query: MoodQuery;
+};
+
+export type AnalyzeWatchlist = WatchlistBase & {
+  kind: "analyze";
+  query: AnalyzePayload;
+};
+
+export type Watchlist = MoodWatchlist | AnalyzeWatchlist;
+
+export type TrendOpportunity = {
   title: string;
-  summary: string;
   score: number;
-  confidence: number;
-  confidenceLabel: string;
-  signals: SuggestionSignals;
-  provenance: {
-    sources: SourceSignal[];
-    notes: string[];
-  };
+  recommended: boolean;
+};
+
+export type TrendPoint = {
+  at: string;
+  runId?: string;
+  emotions: Record<string, number>;
+  clusters: Record<string, number>;
+  topOpportunities: TrendOpportunity[];
+};
+
+export type TimelinePoint = {
+  snapshotId: string;
+  at: string;
+  emotions: Record<string, number>;
+  clusters: Record<string, number>;
+  snippetCount: number;
+  volatility: number | null;
+  spike: boolean;
+  appearedClusters: string[];
+  // Publication dates covered by the run's snippets, when any were dated.
+  published: { earliest: string; latest: string } | null;
+};
+
+export type RegisteredCluster = {
+  id: string;
+  // Snapshot key of the mood query the cluster was first seen under.
+  scope: string;
+  label: string;
+  aliases: string[];
+  headlines: string[];
+  createdAt: string;
+  updatedAt: string;
+  lastSeenAt: string;
+  mergedInto?: string;
+};
+
+export type ComparisonEntry = {
+  query: MoodQuery;
+  result: MoodResult | null;
+  cached: boolean;
+  error?: string;
+};
+
+export type MoodComparison = {
+  emotions: { emotion: string; shares: number[]; spread: number }[];
+  sharedClusters: { label: string; sizes: number[] }[];
+  uniqueClusters: { label: string; size: number }[][];
+  sharedConcerns: string[];
+  distinctConcerns: { label: string; count: number }[][];
+};
+
+export type AlertRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  scope: string;
+  condition: AlertCondition;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AlertMatch = {
+  ruleId: string;
+  ruleName: string;
+  type: AlertCondition["type"];
+  message: string;
+  value: number;
+};
+
+export type AlertEvent = {
+  id: string;
+  createdAt: string;
+  source: "mood" | "analyze" | "test";
+  query: MoodQuery | AnalyzePayload | null;
+  matches: AlertMatch[];
+};
+
+export type AlertDelivery = {
+  eventId: string;
+  attemptedAt: string;
+  url: string | null;
+  ok: boolean;
+  status?: number;
+  error?: string;
+  matches: AlertMatch[];
+};
+
+export type Correction = {
+  id: string;
+  runId: string;
+  runKind: RunRecord["kind"];
+  target: "classification" | "opportunity";
+  index: number;
+  field: string;
+  original: string | number | boolean | null;
+  corrected: string | number | boolean;
+  author: string;
+  createdAt: string;
 };
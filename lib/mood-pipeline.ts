@@ -0,0 +1,251 @@
+import { notifyMoodResult } from "@/lib/alerts";
+import { snippetCacheKey, withCache } from "@/lib/cache";
+import { assignClusterIds, loadClusterResolver } from "@/lib/cluster-registry";
+import { deriveClusters } from "@/lib/clusters";
+import { reasonResultSchema } from "@/lib/contracts";
+import { enforceTimeWindow } from "@/lib/dates";
+import { dedupeItems } from "@/lib/dedup";
+import {
+  computeClusterEmotions,
+  computeEmotionStats,
+  normalizeClassifiedEmotions,
+} from "@/lib/emotions";
+import type { MoodQuery, MoodResult, RunError, Snippet, StageTiming } from "@/lib/models";
+import { clusterCandidates, rankSuggestions } from "@/lib/ranking";
+import { getReasoningProvider, ReasoningError } from "@/lib/reasoning";
+import { getRetrievalProvider, RetrievalError } from "@/lib/retrieval";
+import { saveRun } from "@/lib/runs";
+import { getLatestSnapshot, saveSnapshot } from "@/lib/snapshots";
+import { computeSourceMetrics } from "@/lib/source-metrics";
+import { applySourcePolicy, describeSourcePolicy, getSourcePolicy } from "@/lib/source-policy";
+import { computeVolatility } from "@/lib/volatility";
+
+export type MoodPipelineOptions = {
+  refresh?: boolean;
+  // Whose source policy filters and scores the snippets.
+  workspace?: string;
+};
+
+const MAX_SNIPPET_CHARS = 800;
+const MAX_TITLE_CHARS = 160;
+const MAX_TOTAL_CHARS = 12000;
+
+export async function retrieveMoodSnippets(
+  { topic, region, timeWindow, sourceFocus }: MoodQuery,
+  { refresh, workspace }: MoodPipelineOptions = {},
+  provider = getRetrievalProvider()
+) {
+  const policy = await getSourcePolicy(workspace);
+  const prompt = `Find latest news, discussions, and public conversations about "${topic}" in "${region}" in the last ${timeWindow}. Source focus: ${sourceFocus}.
+${describeSourcePolicy(policy)} Only include sources with verifiable public URLs.
+Return ONLY a strict JSON array of items with fields:
+[
+  {
+    "title": "string",
+    "snippet": "string",
+    "url": "string",
+    "publishedAt": "ISO date string"
+  }
+]
+No extra text, no markdown.`;
+
+  const { value: combined, cached } = await withCache(
+    { stage: "retrieve", provider, prompt, refresh },
+    () => provider.retrieve({ kind: "mood", prompt, subject: topic })
+  );
+
+  const { kept, report } = applySourcePolicy(combined, policy);
+  const { kept: windowed, report: dateWindow } = enforceTimeWindow(kept, timeWindow);
+  const { kept: snippets, report: dedup } = dedupeItems(windowed, { requireSnippet: true });
+  if (!snippets.length) {
+    const reasons = [
+      report.filtered.length ? `${report.filtered.length} filtered by source policy` : "",
+      dateWindow.dropped ? `${dateWindow.dropped} outside the last ${timeWindow}` : "",
+    ].filter(Boolean);
+    throw new RetrievalError(
+      `${provider.name} returned no usable snippets.`,
+      "upstream",
+      502,
+      reasons.length ? reasons.join(", ") : undefined
+    );
+  }
+  return {
+    snippets,
+    cached,
+    provider: provider.name,
+    sourcePolicy: report,
+    dateWindow,
+    dedup,
+  };
+}
+
+function truncate(value: string, limit: number) {
+  if (value.length <= limit) return value;
+  return value.slice(0, limit).trim();
+}
+
+export function enforceSnippetBudget(snippets: Snippet[]) {
+  const trimmed: Snippet[] = [];
+  let totalChars = 0;
+  snippets.forEach((snippet) => {
+    const next = {
+      ...snippet,
+      title: truncate(snippet.title, MAX_TITLE_CHARS),
+      snippet: truncate(snippet.snippet, MAX_SNIPPET_CHARS),
+    };
+    const size = next.title.length + next.snippet.length;
+    if (totalChars + size > MAX_TOTAL_CHARS) return;
+    totalChars += size;
+    trimmed.push(next);
+  });
+  return trimmed;
+}
+
+// Expects snippets that already passed enforceSnippetBudget.
+export async function reasonMoodSnippets(
+  query: MoodQuery,
+  snippets: Snippet[],
+  { refresh, workspace }: MoodPipelineOptions = {},
+  provider = getReasoningProvider()
+) {
+  const { topic, region, timeWindow, sourceFocus } = query;
+  const prompt = `You are a strict JSON classifier for public sentiment analysis.
+Analyze the snippets and return ONLY JSON in this schema:
+{
+  "items": [
+    {
+      "index": number,
+      "emotion": "string",
+      "concern": "string",
+      "narrative": "string",
+      "cluster": "string"
+    }
+  ],
+  "clusters": [
+    {
+      "label": "string",
+      "size": number,
+      "exampleHeadlines": ["string"]
+    }
+  ]
+}
+Snippets:
+${JSON.stringify({
+  topic,
+  region,
+  timeWindow,
+  sourceFocus,
+  snippets,
+})}
+No markdown, no extra keys.`;
+
+  const { value: parsed, cached } = await withCache(
+    {
+      stage: "reason",
+      provider,
+      prompt,
+      key: { topic, region, timeWindow, sourceFocus, snippets: snippetCacheKey(snippets) },
+      refresh,
+      accept: (value) => reasonResultSchema.safeParse(value).success,
+    },
+    () => provider.complete({ prompt })
+  );
+
+  const validation = reasonResultSchema.safeParse(parsed);
+  if (!validation.success) {
+    throw new ReasoningError(
+      "Malformed Mino response.",
+      "malformed",
+      500,
+      validation.error.flatten()
+    );
+  }
+
+  const result = validation.data;
+  const items = normalizeClassifiedEmotions(result.items);
+  const emotions = computeEmotionStats(items);
+  const snapshotQuery = { topic, region, timeWindow, sourceFocus };
+  const clusters = await assignClusterIds(
+    snapshotQuery,
+    result.clusters?.length ? result.clusters : deriveClusters(items, snippets)
+  );
+
+  // Resolve both sides through the registry so merged clusters, and snapshots
+  // saved before clusters had IDs, are not counted as churn. A cached answer
+  // saves no snapshot and usually produced the latest one, so skip past it.
+  const [previous, canonical] = await Promise.all([
+    getLatestSnapshot(snapshotQuery, cached ? 1 : 0),
+    loadClusterResolver(snapshotQuery),
+  ]);
+  const volatility = previous
+    ? computeVolatility(
+        { ...previous, clusters: canonical(previous.clusters) },
+        { emotions, clusters: canonical(clusters) }
+      )
+    : null;
+  if (!cached) {
+    await saveSnapshot({
+      query: snapshotQuery,
+      emotions,
+      clusters,
+      items,
+      snippets,
+    });
+  }
+
+  const mood: MoodResult = {
+    items,
+    clusters,
+    emotions,
+    clusterEmotions: computeClusterEmotions(items),
+    suggestions: rankSuggestions(topic, clusterCandidates(items, snippets, clusters)),
+    volatility,
+    snippets,
+    sourceMetrics: computeSourceMetrics(snippets, await getSourcePolicy(workspace)),
+  };
+  if (!cached) {
+    notifyMoodResult(snapshotQuery, mood).catch((error) =>
+      console.error("Alert evaluation failed", error)
+    );
+  }
+  return { mood, cached, provider: provider.name };
+}
+
+// Server-side retrieve → reason run used by scheduled watchlists; the browser
+// drives the same two stages through /api/retrieve and /api/reason.
+export async function runMoodPipeline(query: MoodQuery, options: MoodPipelineOptions = {}) {
+  const timings: StageTiming[] = [];
+  const errors: RunError[] = [];
+  let outputs: Partial<MoodResult> = {};
+
+  const track = async <T>(stage: string, work: () => Promise<T>) => {
+    const timing: StageTiming = { stage, startedAt: new Date().toISOString(), status: "running" };
+    timings.push(timing);
+    try {
+      return await work();
+    } catch (error) {
+      timing.status = "error";
+      throw error;
+    } finally {
+      const completedAt = new Date();
+      if (timing.status === "running") timing.status = "complete";
+      timing.completedAt = completedAt.toISOString();
+      timing.durationMs = completedAt.getTime() - Date.parse(timing.startedAt);
+    }
+  };
+
+  let stage = "retrieve";
+  try {
+    const { snippets } = await track(stage, () => retrieveMoodSnippets(query, options));
+    outputs = { snippets };
+    stage = "reason";
+    const constrained = enforceSnippetBudget(snippets);
+    const { mood } = await track(stage, () => reasonMoodSnippets(query, constrained, options));
+    outputs = mood;
+  } catch (error) {
+    errors.push({ stage, message: error instanceof Error ? error.message : "Mood radar error" });
+  }
+
+  const run = await saveRun({ kind: "mood", inputs: query, outputs, timings, errors });
+  return { run, outputs, error: errors[0]?.message };
+}
@@ -0,0 +1,43 @@
+import type { z } from "zod";
+
+// Reads an NDJSON response line by line, validating each line against the
+// shared contract so server/client drift surfaces as a reported error rather
+// than an undefined field deep in the render tree.
+export async function readNdjson<T extends z.ZodTypeAny>(
+  response: Response,
+  schema: T,
+  onEvent: (event: z.output<T>) => void,
+  onInvalid?: (line: string, issue: string) => void
+) {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    let json: unknown;
+    try {
+      json = JSON.parse(line);
+    } catch {
+      onInvalid?.(line, "Invalid JSON");
+      return;
+    }
+    const parsed = schema.safeParse(json);
+    if (parsed.success) {
+      onEvent(parsed.data);
+    } else {
+      onInvalid?.(line, parsed.error.message);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer + decoder.decode());
+}
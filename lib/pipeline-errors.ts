@@ -0,0 +1,32 @@
+import type { PipelineErrorCode } from "@/lib/contracts";
+import { ReasoningError } from "@/lib/reasoning";
+import { RetrievalError } from "@/lib/retrieval";
+
+export type { PipelineErrorCode } from "@/lib/contracts";
+
+export class PipelineError extends Error {
+  code: PipelineErrorCode;
+  details?: unknown;
+
+  constructor(message: string, code: PipelineErrorCode, details?: unknown) {
+    super(message);
+    this.name = "PipelineError";
+    this.code = code;
+    this.details = details;
+  }
+}
+
+const kindToCode: Record<RetrievalError["kind"], PipelineErrorCode> = {
+  config: "missing_key",
+  upstream: "upstream_http",
+  malformed: "parse",
+};
+
+export function toPipelineError(error: unknown) {
+  if (error instanceof PipelineError) return error;
+  if (error instanceof RetrievalError || error instanceof ReasoningError) {
+    return new PipelineError(error.message, kindToCode[error.kind], error.details);
+  }
+  const message = error instanceof Error ? error.message : "Pipeline error";
+  return new PipelineError(message, "internal");
+}
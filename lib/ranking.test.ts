@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { rankSuggestions } from "@/lib/ranking";
+
+function candidate(title: string) {
+  return { title, summary: "", sources: [] };
+}
+
+describe("rankSuggestions", () => {
+  it("gives every suggestion a unique slug id", () => {
+    const suggestions = rankSuggestions("transit", [
+      candidate("Fare hikes"),
+      candidate("Fare hikes!"),
+      candidate("Fare hikes 2"),
+      candidate("¿?"),
+    ]);
+    expect(suggestions.map((suggestion) => suggestion.id).sort()).toEqual([
+      "fare-hikes",
+      "fare-hikes-2",
+      "fare-hikes-2-2",
+      "suggestion",
+    ]);
+  });
+});
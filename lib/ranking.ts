@@ -0,0 +1,160 @@
+import { clusterKey } from "@/lib/clusters";
+import { parseDate } from "@/lib/dates";
+import { domainOf, toSourceSignal } from "@/lib/sources";
+import { slugify } from "@/lib/utils";
+import type {
+  ClassifiedSnippet,
+  NarrativeCluster,
+  Snippet,
+  Suggestion,
+} from "@/lib/models";
+
+export type SuggestionCandidate = {
+  title: string;
+  summary: string;
+  sources: Snippet[];
+  notes?: string[];
+};
+
+const WEIGHTS = { relevance: 0.5, recency: 0.3, diversity: 0.2 };
+const RECENCY_HALF_LIFE_HOURS = 72;
+const UNDATED_RECENCY = 0.3;
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "into",
+  "is", "it", "of", "on", "or", "the", "to", "vs", "with",
+]);
+
+function tokenize(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+function round(value: number, digits = 3) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function relevanceScore(topicTerms: Set<string>, sources: Snippet[]) {
+  if (!topicTerms.size || !sources.length) return 0;
+  const perSource = sources.map((source) => {
+    const tokens = new Set(tokenize(`${source.title} ${source.snippet}`));
+    let hits = 0;
+    topicTerms.forEach((term) => {
+      if (tokens.has(term)) hits += 1;
+    });
+    return hits / topicTerms.size;
+  });
+  return perSource.reduce((sum, value) => sum + value, 0) / perSource.length;
+}
+
+function recencyScore(sources: Snippet[], now: Date) {
+  if (!sources.length) return 0;
+  const perSource = sources.map((source) => {
+    const timestamp = parseDate(source.publishedAt, now);
+    if (timestamp === null) return UNDATED_RECENCY;
+    const ageHours = Math.max(0, (now.getTime() - timestamp) / 3_600_000);
+    return Math.pow(0.5, ageHours / RECENCY_HALF_LIFE_HOURS);
+  });
+  return perSource.reduce((sum, value) => sum + value, 0) / perSource.length;
+}
+
+function diversityScore(sources: Snippet[]) {
+  if (!sources.length) return 0;
+  const domains = new Set(sources.map((source) => domainOf(source.url)).filter(Boolean));
+  const spread = domains.size / sources.length;
+  return spread * Math.min(1, domains.size / 3);
+}
+
+function confidenceLabel(confidence: number) {
+  if (confidence >= 0.7) return "High";
+  if (confidence >= 0.4) return "Medium";
+  return "Low";
+}
+
+// Titles can repeat or slugify to nothing, so later duplicates get a numeric suffix.
+function suggestionIds(candidates: SuggestionCandidate[]) {
+  const used = new Set<string>();
+  return candidates.map((candidate) => {
+    const base = slugify(candidate.title) || "suggestion";
+    let id = base;
+    for (let suffix = 2; used.has(id); suffix += 1) id = `${base}-${suffix}`;
+    used.add(id);
+    return id;
+  });
+}
+
+export function rankSuggestions(
+  topic: string,
+  candidates: SuggestionCandidate[],
+  now = new Date()
+): Suggestion[] {
+  const topicTerms = new Set(tokenize(topic));
+  const ids = suggestionIds(candidates);
+  return candidates
+    .map<Suggestion>((candidate, index) => {
+      const relevance = relevanceScore(topicTerms, candidate.sources);
+      const recency = recencyScore(candidate.sources, now);
+      const diversity = diversityScore(candidate.sources);
+      const score = Math.round(
+        100 *
+          (WEIGHTS.relevance * relevance +
+            WEIGHTS.recency * recency +
+            WEIGHTS.diversity * diversity)
+      );
+      const volume = Math.min(1, candidate.sources.length / 5);
+      const confidence = round(volume * (0.5 + 0.5 * diversity));
+      const domains = new Set(candidate.sources.map((source) => domainOf(source.url)));
+      return {
+        id: ids[index],
+        title: candidate.title,
+        summary: candidate.summary,
+        score,
+        confidence,
+        confidenceLabel: confidenceLabel(confidence),
+        signals: {
+          relevance: round(relevance),
+          recency: round(recency),
+          diversity: round(diversity),
+          rationale: [
+            `${Math.round(relevance * 100)}% topic term overlap across ${candidate.sources.length} sources`,
+            `Recency ${Math.round(recency * 100)}% with a ${RECENCY_HALF_LIFE_HOURS}h half-life`,
+            `${domains.size} distinct domains`,
+          ],
+        },
+        provenance: {
+          sources: candidate.sources.map(toSourceSignal),
+          notes: candidate.notes ?? [],
+        },
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.confidence - a.confidence);
+}
+
+export function clusterCandidates(
+  items: ClassifiedSnippet[],
+  snippets: Snippet[],
+  clusters: NarrativeCluster[]
+): SuggestionCandidate[] {
+  return clusters.map((cluster) => {
+    const key = clusterKey(cluster.label);
+    const members = items.filter((item) => clusterKey(item.cluster) === key);
+    const narratives = Array.from(new Set(members.map((item) => item.narrative)));
+    const sources = Array.from(
+      new Map(
+        members
+          .map((item) => snippets[item.index])
+          .filter((snippet): snippet is Snippet => Boolean(snippet?.url))
+          .map((snippet) => [snippet.url, snippet])
+      ).values()
+    );
+    return {
+      title: cluster.label,
+      summary: narratives[0] ?? cluster.exampleHeadlines[0] ?? cluster.label,
+      sources,
+      notes: narratives.slice(1, 4),
+    };
+  });
+}
@@ -0,0 +1,37 @@
+import {
+  minoAutomationProvider,
+  minoCompletionProvider,
+  minoSseProvider,
+} from "@/lib/reasoning/mino";
+import { openAiCompatibleProvider } from "@/lib/reasoning/openai";
+import { ReasoningError, type ReasoningProvider } from "@/lib/reasoning/types";
+
+export { ReasoningError } from "@/lib/reasoning/types";
+export type { ReasoningProvider, ReasoningRequest } from "@/lib/reasoning/types";
+
+const providers: Record<string, ReasoningProvider> = {
+  [minoAutomationProvider.name]: minoAutomationProvider,
+  [minoSseProvider.name]: minoSseProvider,
+  [minoCompletionProvider.name]: minoCompletionProvider,
+  [openAiCompatibleProvider.name]: openAiCompatibleProvider,
+};
+
+function defaultProviderName() {
+  return process.env.MINO_API_URL?.includes("/run-sse")
+    ? minoSseProvider.name
+    : minoAutomationProvider.name;
+}
+
+export function getReasoningProvider() {
+  const name = process.env.REASONING_PROVIDER ?? defaultProviderName();
+  const provider = providers[name];
+  if (!provider) {
+    throw new ReasoningError(
+      `Unknown REASONING_PROVIDER "${name}".`,
+      "config",
+      400,
+      `Expected one of: ${Object.keys(providers).join(", ")}.`
+    );
+  }
+  return provider;
+}
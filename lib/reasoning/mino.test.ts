@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { minoAutomationProvider } from "@/lib/reasoning/mino";
+
+const fetchMock = vi.fn();
+
+function jsonResponse(body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+describe("minoAutomationProvider", () => {
+  beforeEach(() => {
+    vi.stubGlobal("fetch", fetchMock);
+    vi.stubEnv("MINO_API_KEY", "secret");
+    vi.stubEnv("MINO_MODEL", "mino-test");
+    vi.stubEnv("MINO_AGENT_URL", "https://agent.example.com");
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it("posts { url, goal } with X-API-Key to automation endpoints", async () => {
+    vi.stubEnv("MINO_API_URL", "https://mino.ai/v1/automation/run");
+    fetchMock.mockResolvedValue(jsonResponse({ status: "COMPLETED", resultJson: { ok: 1 } }));
+
+    await expect(minoAutomationProvider.complete({ prompt: "goal" })).resolves.toEqual({ ok: 1 });
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.headers).toMatchObject({ "X-API-Key": "secret" });
+    expect(JSON.parse(init.body)).toEqual({ url: "https://agent.example.com", goal: "goal" });
+  });
+
+  it("posts { model, prompt } with a bearer token to completion endpoints", async () => {
+    vi.stubEnv("MINO_API_URL", "https://mino.ai/v1/complete");
+    fetchMock.mockResolvedValue(new Response('Here you go: {"ok": 2}'));
+
+    await expect(minoAutomationProvider.complete({ prompt: "goal" })).resolves.toEqual({ ok: 2 });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://mino.ai/v1/complete");
+    expect(init.headers).toMatchObject({ Authorization: "Bearer secret" });
+    expect(JSON.parse(init.body)).toEqual({ model: "mino-test", prompt: "goal" });
+  });
+});
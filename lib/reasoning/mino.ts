@@ -0,0 +1,169 @@
+import { coerceResult } from "@/lib/reasoning/result";
+import { ReasoningError, type ReasoningProvider } from "@/lib/reasoning/types";
+import { describeSseEvent, parseSseEvents, readSseEvents } from "@/lib/sse";
+
+const SILENT_EVENTS = new Set(["HEARTBEAT", "PING"]);
+
+type AutomationResponse = {
+  status?: string;
+  result?: unknown;
+  resultJson?: unknown;
+  error?: { message?: string };
+};
+
+export function minoConfig() {
+  const apiKey = process.env.MINO_API_KEY;
+  const apiUrl = process.env.MINO_API_URL;
+  if (!apiKey || !apiUrl) {
+    throw new ReasoningError("Missing MINO_API_KEY or MINO_API_URL", "config", 500);
+  }
+  return {
+    apiKey,
+    apiUrl,
+    agentUrl: process.env.MINO_AGENT_URL ?? "https://example.com",
+  };
+}
+
+function minoModel() {
+  return process.env.MINO_MODEL ?? "mino-latest";
+}
+
+// Automation endpoints take { url, goal }; any other Mino URL is a plain
+// completion endpoint taking { model, prompt } with a bearer token.
+export function isAutomationEndpoint(apiUrl: string) {
+  return apiUrl.includes("/automation/run");
+}
+
+export async function postMinoGoal(apiUrl: string, apiKey: string, agentUrl: string, goal: string) {
+  const response = await fetch(apiUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-API-Key": apiKey,
+    },
+    body: JSON.stringify({ url: agentUrl, goal }),
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new ReasoningError("Mino API error", "upstream", response.status, text);
+  }
+  return response;
+}
+
+export function resultFromSse(text: string) {
+  const lastComplete = parseSseEvents(text)
+    .reverse()
+    .find((event) => event.type === "COMPLETE");
+  return coerceResult(lastComplete?.resultJson ?? lastComplete?.result);
+}
+
+// Consumes run-sse incrementally so callers can surface agent progress while
+// the run is still going, instead of waiting for the whole body.
+async function streamMinoResult(response: Response, onProgress?: (message: string) => void) {
+  if (!response.body) {
+    return resultFromSse(await response.text());
+  }
+  let lastMessage = "";
+  for await (const event of readSseEvents(response.body)) {
+    if (event.type === "COMPLETE") {
+      if (event.status && event.status !== "COMPLETED" && !event.resultJson) {
+        throw new ReasoningError("Mino automation did not complete.", "upstream", 502, event);
+      }
+      return coerceResult(event.resultJson ?? event.result);
+    }
+    if (event.type && SILENT_EVENTS.has(event.type)) continue;
+    const message = describeSseEvent(event);
+    if (onProgress && message !== lastMessage) {
+      onProgress(message);
+      lastMessage = message;
+    }
+  }
+  return null;
+}
+
+function isEventStream(response: Response) {
+  return (response.headers.get("content-type") ?? "").includes("text/event-stream");
+}
+
+export const minoCompletionProvider: ReasoningProvider = {
+  name: "mino-completion",
+  model: minoModel,
+  async complete({ prompt }) {
+    const { apiKey, apiUrl } = minoConfig();
+    const response = await fetch(apiUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({ model: minoModel(), prompt }),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new ReasoningError("Mino API error", "upstream", response.status, text);
+    }
+    const result = coerceResult(await response.text());
+    if (!result) {
+      throw new ReasoningError("Unable to parse Mino response.", "malformed", 500);
+    }
+    return result;
+  },
+};
+
+// Picks the request mode from MINO_API_URL, as the original /api/reason did.
+export const minoAutomationProvider: ReasoningProvider = {
+  name: "mino",
+  model: () =>
+    isAutomationEndpoint(process.env.MINO_API_URL ?? "") ? "automation" : minoModel(),
+  async complete({ prompt, onProgress }) {
+    const { apiKey, apiUrl, agentUrl } = minoConfig();
+    if (!isAutomationEndpoint(apiUrl)) {
+      return minoCompletionProvider.complete({ prompt, onProgress });
+    }
+    const response = await postMinoGoal(apiUrl, apiKey, agentUrl, prompt);
+    if (isEventStream(response)) {
+      const streamed = await streamMinoResult(response, onProgress);
+      if (streamed) return streamed;
+      throw new ReasoningError("Unable to parse Mino response.", "malformed", 500);
+    }
+    const rawText = await response.text();
+
+    let automation: AutomationResponse;
+    try {
+      automation = JSON.parse(rawText) as AutomationResponse;
+    } catch {
+      const fromSse = resultFromSse(rawText);
+      if (fromSse) return fromSse;
+      throw new ReasoningError("Unable to parse Mino response.", "malformed", 500);
+    }
+
+    const result = coerceResult(automation.resultJson ?? automation.result);
+    if (!result && automation.status && automation.status !== "COMPLETED") {
+      throw new ReasoningError(
+        "Mino automation did not complete.",
+        "upstream",
+        502,
+        automation
+      );
+    }
+    if (!result) {
+      throw new ReasoningError("Unable to parse Mino response.", "malformed", 500);
+    }
+    return result;
+  },
+};
+
+export const minoSseProvider: ReasoningProvider = {
+  name: "mino-sse",
+  async complete({ prompt, onProgress }) {
+    const { apiKey, apiUrl, agentUrl } = minoConfig();
+    const response = await postMinoGoal(apiUrl, apiKey, agentUrl, prompt);
+    const result = await streamMinoResult(response, onProgress);
+    if (!result) {
+      throw new ReasoningError("Unable to parse Mino response.", "malformed", 500);
+    }
+    return result;
+  },
+};
@@ -0,0 +1,58 @@
+import { coerceResult } from "@/lib/reasoning/result";
+import { ReasoningError, type ReasoningProvider } from "@/lib/reasoning/types";
+
+function resolveEndpoint(baseUrl: string) {
+  return baseUrl.endsWith("/chat/completions")
+    ? baseUrl
+    : `${baseUrl.replace(/\/$/, "")}/chat/completions`;
+}
+
+function reasoningModel() {
+  return process.env.REASONING_MODEL ?? "local";
+}
+
+// Any OpenAI-compatible /chat/completions server, e.g. llama.cpp or Ollama.
+export const openAiCompatibleProvider: ReasoningProvider = {
+  name: "openai",
+  model: reasoningModel,
+  async complete({ prompt }) {
+    const baseUrl = process.env.REASONING_API_URL;
+    if (!baseUrl) {
+      throw new ReasoningError("Missing REASONING_API_URL", "config", 500);
+    }
+    const apiKey = process.env.REASONING_API_KEY;
+
+    const response = await fetch(resolveEndpoint(baseUrl), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: reasoningModel(),
+        messages: [
+          {
+            role: "system",
+            content: "You are a strict JSON generator. Reply with JSON only.",
+          },
+          { role: "user", content: prompt },
+        ],
+        temperature: 0.2,
+      }),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new ReasoningError("Reasoning API error", "upstream", response.status, text);
+    }
+
+    const payload = await response.json();
+    const content =
+      payload?.choices?.[0]?.message?.content ?? payload?.choices?.[0]?.text ?? "";
+    const result = coerceResult(content);
+    if (!result) {
+      throw new ReasoningError("Unable to parse reasoning response.", "malformed", 500);
+    }
+    return result;
+  },
+};
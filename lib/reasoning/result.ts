@@ -0,0 +1,11 @@
+import { extractJsonObject } from "@/lib/json";
+
+// Agents sometimes return the JSON result as a string, possibly wrapped in prose.
+export function coerceResult(value: unknown) {
+  if (typeof value !== "string") return value ?? null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return extractJsonObject(value);
+  }
+}
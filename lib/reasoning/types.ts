@@ -0,0 +1,29 @@
+export type ReasoningRequest = {
+  prompt: string;
+  onProgress?: (message: string) => void;
+};
+
+export interface ReasoningProvider {
+  name: string;
+  model?(): string;
+  complete(request: ReasoningRequest): Promise<unknown>;
+}
+
+export class ReasoningError extends Error {
+  status: number;
+  kind: "config" | "upstream" | "malformed";
+  details?: unknown;
+
+  constructor(
+    message: string,
+    kind: ReasoningError["kind"],
+    status: number,
+    details?: unknown
+  ) {
+    super(message);
+    this.name = "ReasoningError";
+    this.kind = kind;
+    this.status = status;
+    this.details = details;
+  }
+}
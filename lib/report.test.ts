@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { renderCsv, renderMarkdown } from "@/lib/report";
+
+describe("renderCsv", () => {
+  it("prefixes formula-like text cells with a quote", () => {
+    const csv = renderCsv(
+      ["title", "score"],
+      [
+        { title: "=HYPERLINK(\"http://evil\")", score: -3 },
+        { title: "+1 for transit", score: 2 },
+        { title: "@mention", score: 1 },
+        { title: "-drop", score: 0 },
+      ]
+    );
+    expect(csv.split("\n")).toEqual([
+      "title,score",
+      "\"'=HYPERLINK(\"\"http://evil\"\")\",-3",
+      "'+1 for transit,2",
+      "'@mention,1",
+      "'-drop,0",
+      "",
+    ]);
+  });
+});
+
+describe("renderMarkdown", () => {
+  it("encodes characters that would break a link target", () => {
+    const markdown = renderMarkdown({
+      title: "Report",
+      subtitle: "Sources",
+      blocks: [
+        {
+          kind: "paragraph",
+          parts: [{ text: "Story", url: "https://example.com/a (b)/<c> d" }],
+        },
+      ],
+    });
+    expect(markdown).toContain("[Story](https://example.com/a%20%28b%29/%3Cc%3E%20d)");
+  });
+});
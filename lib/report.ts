@@ -0,0 +1,152 @@
+export type ReportInline = { text: string; url?: string };
+
+export type ReportBlock =
+  | { kind: "heading"; level: 2 | 3; text: string }
+  | { kind: "paragraph"; parts: ReportInline[] }
+  | { kind: "list"; items: ReportInline[][]; ordered?: boolean }
+  | { kind: "table"; headers: string[]; rows: string[][] };
+
+export type Report = {
+  title: string;
+  subtitle: string;
+  blocks: ReportBlock[];
+};
+
+function escapeMarkdown(value: string) {
+  return value.replace(/([\\`*_[\]|])/g, "\\$1").replace(/\s+/g, " ");
+}
+
+// Spaces, parentheses and angle brackets would end the link target early.
+function markdownUrl(url: string) {
+  return url.replace(
+    /[\s()<>]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`
+  );
+}
+
+function markdownInline(parts: ReportInline[]) {
+  return parts
+    .map((part) =>
+      part.url
+        ? `[${escapeMarkdown(part.text)}](${markdownUrl(part.url)})`
+        : escapeMarkdown(part.text)
+    )
+    .join("")
+    .trim();
+}
+
+export function renderMarkdown(report: Report) {
+  const lines = [
+    `# ${escapeMarkdown(report.title).trim()}`,
+    "",
+    `_${escapeMarkdown(report.subtitle).trim()}_`,
+  ];
+  report.blocks.forEach((block) => {
+    lines.push("");
+    if (block.kind === "heading") {
+      lines.push(`${"#".repeat(block.level)} ${escapeMarkdown(block.text).trim()}`);
+    } else if (block.kind === "paragraph") {
+      lines.push(markdownInline(block.parts));
+    } else if (block.kind === "list") {
+      block.items.forEach((item, index) =>
+        lines.push(`${block.ordered ? `${index + 1}.` : "-"} ${markdownInline(item)}`)
+      );
+    } else {
+      lines.push(`| ${block.headers.map(escapeMarkdown).join(" | ")} |`);
+      lines.push(`| ${block.headers.map(() => "---").join(" | ")} |`);
+      block.rows.forEach((row) => lines.push(`| ${row.map(escapeMarkdown).join(" | ")} |`));
+    }
+  });
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function safeUrl(url: string) {
+  return /^https?:\/\//i.test(url) ? url : "#";
+}
+
+function htmlInline(parts: ReportInline[]) {
+  return parts
+    .map((part) =>
+      part.url
+        ? `<a href="${escapeHtml(safeUrl(part.url))}">${escapeHtml(part.text)}</a>`
+        : escapeHtml(part.text)
+    )
+    .join("");
+}
+
+const PRINT_STYLES = `
+  body { font-family: Georgia, "Times New Roman", serif; color: #111; max-width: 820px; margin: 40px auto; padding: 0 24px; line-height: 1.5; }
+  h1 { font-size: 28px; margin-bottom: 4px; }
+  h2 { font-size: 20px; margin-top: 32px; border-bottom: 1px solid #ddd; padding-bottom: 4px; }
+  h3 { font-size: 16px; margin-top: 20px; }
+  .subtitle { color: #555; font-style: italic; }
+  a { color: #1d4ed8; word-break: break-all; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  th, td { border: 1px solid #ddd; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #f4f4f5; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    a { color: inherit; }
+    h2, h3 { break-after: avoid; }
+    table, li { break-inside: avoid; }
+  }
+`;
+
+export function renderHtml(report: Report) {
+  const body = report.blocks
+    .map((block) => {
+      if (block.kind === "heading") {
+        return `<h${block.level}>${escapeHtml(block.text)}</h${block.level}>`;
+      }
+      if (block.kind === "paragraph") return `<p>${htmlInline(block.parts)}</p>`;
+      if (block.kind === "list") {
+        const tag = block.ordered ? "ol" : "ul";
+        return `<${tag}>${block.items.map((item) => `<li>${htmlInline(item)}</li>`).join("")}</${tag}>`;
+      }
+      const head = block.headers.map((header) => `<th>${escapeHtml(header)}</th>`).join("");
+      const rows = block.rows
+        .map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`)
+        .join("");
+      return `<table><thead><tr>${head}</tr></thead><tbody>${rows}</tbody></table>`;
+    })
+    .join("\n");
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(report.title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="subtitle">${escapeHtml(report.subtitle)}</p>
+${body}
+</body>
+</html>
+`;
+}
+
+function csvCell(value: string | number | boolean | undefined) {
+  let text = value === undefined ? "" : String(value);
+  // Scraped titles and model text must not run as spreadsheet formulas.
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function renderCsv<Column extends string>(
+  columns: Column[],
+  rows: Partial<Record<Column, string | number | boolean>>[]
+) {
+  return [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\n")
+    .concat("\n");
+}
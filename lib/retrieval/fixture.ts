@@ -0,0 +1,46 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { Snippet } from "@/lib/models";
+import { RetrievalError, type RetrievalProvider } from "@/lib/retrieval/types";
+import { slugify } from "@/lib/utils";
+
+function fixturesDir() {
+  return (
+    process.env.RETRIEVAL_FIXTURES_DIR ??
+    path.join(process.cwd(), "fixtures", "retrieval")
+  );
+}
+
+async function readFixture(file: string) {
+  try {
+    const raw = await fs.readFile(path.join(fixturesDir(), file), "utf8");
+    return JSON.parse(raw) as Partial<Snippet>[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === "ENOENT") return null;
+    throw new RetrievalError(`Unreadable fixture ${file}.`, "malformed", 500, String(error));
+  }
+}
+
+// Serves recorded snippets from <fixtures>/<kind>-<subject>.json, then
+// <subject>.json, then default.json, so demos run without any API key.
+// Fixtures use relative dates ("2 days ago") so they stay inside the time window.
+export const fixtureProvider: RetrievalProvider = {
+  name: "fixture",
+  async retrieve({ kind, subject }) {
+    const slug = slugify(subject);
+    const candidates = [`${kind}-${slug}.json`, `${slug}.json`, "default.json"];
+    for (const file of candidates) {
+      const items = await readFixture(file);
+      if (!items) continue;
+      return items
+        .map((item) => ({
+          title: String(item.title ?? "").trim(),
+          snippet: String(item.snippet ?? "").trim(),
+          url: String(item.url ?? "").trim(),
+          publishedAt: String(item.publishedAt ?? "").trim(),
+        }))
+        .filter((item) => item.title && item.url);
+    }
+    throw new RetrievalError(`No retrieval fixture found in ${fixturesDir()}.`, "config", 500);
+  },
+};
@@ -0,0 +1,25 @@
+import { fixtureProvider } from "@/lib/retrieval/fixture";
+import { perplexityProvider } from "@/lib/retrieval/perplexity";
+import { RetrievalError, type RetrievalProvider } from "@/lib/retrieval/types";
+
+export { RetrievalError } from "@/lib/retrieval/types";
+export type { RetrievalProvider, RetrievalRequest } from "@/lib/retrieval/types";
+
+const providers: Record<string, RetrievalProvider> = {
+  [perplexityProvider.name]: perplexityProvider,
+  [fixtureProvider.name]: fixtureProvider,
+};
+
+export function getRetrievalProvider() {
+  const name = process.env.RETRIEVAL_PROVIDER ?? perplexityProvider.name;
+  const provider = providers[name];
+  if (!provider) {
+    throw new RetrievalError(
+      `Unknown RETRIEVAL_PROVIDER "${name}".`,
+      "config",
+      400,
+      `Expected one of: ${Object.keys(providers).join(", ")}.`
+    );
+  }
+  return provider;
+}
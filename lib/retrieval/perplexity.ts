@@ -0,0 +1,83 @@
+import { extractJsonArray } from "@/lib/json";
+import type { Snippet } from "@/lib/models";
+import { RetrievalError, type RetrievalProvider } from "@/lib/retrieval/types";
+
+type SearchResult = {
+  title?: string;
+  snippet?: string;
+  url?: string;
+  last_updated?: string;
+  date?: string;
+};
+
+function resolveEndpoint() {
+  const baseUrl = process.env.PERPLEXITY_API_URL ?? "https://api.perplexity.ai";
+  return baseUrl.endsWith("/chat/completions")
+    ? baseUrl
+    : `${baseUrl.replace(/\/$/, "")}/chat/completions`;
+}
+
+function perplexityModel() {
+  return process.env.PERPLEXITY_MODEL ?? "sonar";
+}
+
+export const perplexityProvider: RetrievalProvider = {
+  name: "perplexity",
+  model: perplexityModel,
+  async retrieve({ prompt }) {
+    const apiKey = process.env.PERPLEXITY_API_KEY;
+    if (!apiKey) {
+      throw new RetrievalError("Missing PERPLEXITY_API_KEY.", "config", 500);
+    }
+
+    const response = await fetch(resolveEndpoint(), {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: perplexityModel(),
+        messages: [
+          { role: "system", content: "You are a precise data extractor." },
+          { role: "user", content: prompt },
+        ],
+        temperature: 0.2,
+      }),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new RetrievalError("Perplexity request failed.", "upstream", 502, text);
+    }
+
+    const payload = await response.json();
+    const content =
+      payload?.choices?.[0]?.message?.content ??
+      payload?.choices?.[0]?.text ??
+      "";
+
+    const extracted = extractJsonArray(content) ?? [];
+    const normalized = extracted
+      .map((item: Partial<Snippet>) => ({
+        title: String(item.title ?? "").trim(),
+        snippet: String(item.snippet ?? "").trim(),
+        url: String(item.url ?? "").trim(),
+        publishedAt: String(item.publishedAt ?? "").trim(),
+      }))
+      .filter((item: Snippet) => item.title && item.url);
+
+    const fallbackResults = Array.isArray(payload?.search_results)
+      ? payload.search_results
+          .map((item: SearchResult) => ({
+            title: String(item.title ?? "").trim(),
+            snippet: String(item.snippet ?? "").trim(),
+            url: String(item.url ?? "").trim(),
+            publishedAt: String(item.last_updated ?? item.date ?? "").trim(),
+          }))
+          .filter((item: Snippet) => item.title && item.url)
+      : [];
+
+    return (normalized.length ? normalized : fallbackResults) as Snippet[];
+  },
+};
@@ -0,0 +1,32 @@
+import type { Snippet } from "@/lib/models";
+
+export type RetrievalRequest = {
+  kind: "mood" | "creator";
+  prompt: string;
+  subject: string;
+};
+
+export interface RetrievalProvider {
+  name: string;
+  model?(): string;
+  retrieve(request: RetrievalRequest): Promise<Snippet[]>;
+}
+
+export class RetrievalError extends Error {
+  status: number;
+  kind: "config" | "upstream" | "malformed";
+  details?: string;
+
+  constructor(
+    message: string,
+    kind: RetrievalError["kind"],
+    status: number,
+    details?: string
+  ) {
+    super(message);
+    this.name = "RetrievalError";
+    this.kind = kind;
+    this.status = status;
+    this.details = details;
+  }
+}
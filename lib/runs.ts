@@ -0,0 +1,79 @@
+import { deleteCorrections } from "@/lib/corrections";
+import { readJsonFile, updateJsonFile } from "@/lib/store";
+import type { RunRecord, RunSummary } from "@/lib/models";
+
+const RUNS_FILE = "runs";
+const MAX_RUNS = 200;
+
+export type NewRun<Run extends RunRecord = RunRecord> = Run extends RunRecord
+  ? Omit<Run, "id" | "createdAt" | "updatedAt" | "name"> & { name?: string }
+  : never;
+
+export function defaultRunName(run: NewRun) {
+  return run.kind === "analyze"
+    ? `${run.inputs.niche} · ${run.inputs.platform}`
+    : `${run.inputs.topic} · ${run.inputs.region}`;
+}
+
+function summarize(run: RunRecord): RunSummary {
+  return {
+    id: run.id,
+    kind: run.kind,
+    name: run.name,
+    createdAt: run.createdAt,
+    updatedAt: run.updatedAt,
+    inputs: run.inputs,
+    failed: run.errors.length > 0,
+  };
+}
+
+export async function listRuns() {
+  const runs = await readJsonFile<RunRecord[]>(RUNS_FILE, []);
+  return runs
+    .map(summarize)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getRun(id: string) {
+  const runs = await readJsonFile<RunRecord[]>(RUNS_FILE, []);
+  return runs.find((run) => run.id === id) ?? null;
+}
+
+export async function saveRun(run: NewRun) {
+  const now = new Date().toISOString();
+  const record = {
+    ...run,
+    id: crypto.randomUUID(),
+    name: run.name?.trim() || defaultRunName(run),
+    createdAt: now,
+    updatedAt: now,
+  } as RunRecord;
+  await updateJsonFile<RunRecord[]>(RUNS_FILE, [], (runs) =>
+    [...runs, record].slice(-MAX_RUNS)
+  );
+  return record;
+}
+
+export async function renameRun(id: string, name: string) {
+  let renamed: RunRecord | null = null;
+  await updateJsonFile<RunRecord[]>(RUNS_FILE, [], (runs) =>
+    runs.map((run) => {
+      if (run.id !== id) return run;
+      renamed = { ...run, name, updatedAt: new Date().toISOString() };
+      return renamed;
+    })
+  );
+  return renamed as RunRecord | null;
+}
+
+export async function deleteRun(id: string) {
+  let removed = false;
+  await updateJsonFile<RunRecord[]>(RUNS_FILE, [], (runs) => {
+    const remaining = runs.filter((run) => run.id !== id);
+    removed = remaining.length !== runs.length;
+    return remaining;
+  });
+  // Corrections only make sense against their run's outputs.
+  if (removed) await deleteCorrections(id);
+  return removed;
+}
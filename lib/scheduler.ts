@@ -0,0 +1,94 @@
+import { runAnalyzePipeline } from "@/lib/analyze-pipeline";
+import { loadClusterResolver } from "@/lib/cluster-registry";
+import { runMoodPipeline } from "@/lib/mood-pipeline";
+import type { Watchlist } from "@/lib/models";
+import { analyzeTrendPoint, appendTrendPoint, moodTrendPoint } from "@/lib/trends";
+import { listWatchlists, recordWatchlistRun } from "@/lib/watchlists";
+
+const DEFAULT_TICK_MS = 60_000;
+
+const running = new Set<string>();
+
+const schedulerState = globalThis as typeof globalThis & {
+  watchlistScheduler?: ReturnType<typeof setInterval>;
+};
+
+async function executeWatchlist(watchlist: Watchlist) {
+  if (watchlist.kind === "mood") {
+    const { run, outputs, error } = await runMoodPipeline(watchlist.query);
+    const canonical = await loadClusterResolver(watchlist.query);
+    const point =
+      outputs.emotions && outputs.clusters
+        ? moodTrendPoint(
+            { emotions: outputs.emotions, clusters: canonical(outputs.clusters) },
+            run.id
+          )
+        : null;
+    return { runId: run.id, error, point };
+  }
+  const { summary, outputs } = await runAnalyzePipeline(watchlist.query, {});
+  const error = summary.failed
+    ? `Pipeline stopped at stage ${summary.failed}${summary.code ? ` (${summary.code})` : ""}`
+    : undefined;
+  const point = outputs.D ? analyzeTrendPoint(outputs, summary.runId) : null;
+  return { runId: summary.runId, error, point };
+}
+
+export async function runWatchlist(watchlist: Watchlist) {
+  if (running.has(watchlist.id)) {
+    return { watchlist, point: null, skipped: true };
+  }
+  running.add(watchlist.id);
+  try {
+    let result: Awaited<ReturnType<typeof executeWatchlist>>;
+    try {
+      result = await executeWatchlist(watchlist);
+    } catch (error) {
+      result = {
+        runId: undefined,
+        error: error instanceof Error ? error.message : "Watchlist run failed",
+        point: null,
+      };
+    }
+    if (result.point) await appendTrendPoint(watchlist.id, result.point);
+    const updated = await recordWatchlistRun(watchlist.id, {
+      runId: result.runId,
+      error: result.error,
+    });
+    return { watchlist: updated ?? watchlist, point: result.point, skipped: false };
+  } finally {
+    running.delete(watchlist.id);
+  }
+}
+
+export async function runDueWatchlists(now = new Date()) {
+  const due = (await listWatchlists()).filter(
+    (watchlist) =>
+      watchlist.enabled &&
+      watchlist.nextRunAt !== null &&
+      Date.parse(watchlist.nextRunAt) <= now.getTime()
+  );
+  // Sequential on purpose: scheduled runs share provider rate limits.
+  for (const watchlist of due) {
+    await runWatchlist(watchlist);
+  }
+  return due.length;
+}
+
+export function startScheduler() {
+  if (schedulerState.watchlistScheduler || process.env.WATCHLIST_SCHEDULER === "off") return;
+  const interval = Number(process.env.WATCHLIST_TICK_MS) || DEFAULT_TICK_MS;
+  let ticking = false;
+  schedulerState.watchlistScheduler = setInterval(async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      await runDueWatchlists();
+    } catch (error) {
+      console.error("Watchlist scheduler tick failed", error);
+    } finally {
+      ticking = false;
+    }
+  }, interval);
+  schedulerState.watchlistScheduler.unref?.();
+}
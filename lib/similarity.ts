@@ -0,0 +1,28 @@
+export function normalizeTitle(title: string) {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function bigrams(value: string) {
+  const grams = new Set<string>();
+  for (let i = 0; i < value.length - 1; i += 1) {
+    grams.add(value.slice(i, i + 2));
+  }
+  return grams;
+}
+
+// Dice coefficient over character bigrams; expects normalized input.
+export function similarityScore(a: string, b: string) {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const aSet = bigrams(a);
+  const bSet = bigrams(b);
+  let matches = 0;
+  aSet.forEach((gram) => {
+    if (bSet.has(gram)) matches += 1;
+  });
+  return (2 * matches) / (aSet.size + bSet.size);
+}
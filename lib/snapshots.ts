@@ -0,0 +1,65 @@
+import { readJsonFile, updateJsonFile } from "@/lib/store";
+import type {
+  ClassifiedSnippet,
+  EmotionStats,
+  MoodQuery,
+  NarrativeCluster,
+  Snippet,
+} from "@/lib/models";
+
+export type MoodSnapshot = {
+  id: string;
+  createdAt: string;
+  query: MoodQuery;
+  emotions: EmotionStats[];
+  clusters: NarrativeCluster[];
+  items: ClassifiedSnippet[];
+  snippets: Snippet[];
+};
+
+type SnapshotFile = Record<string, MoodSnapshot[]>;
+
+const SNAPSHOT_FILE = "snapshots";
+const MAX_SNAPSHOTS_PER_QUERY = 50;
+
+export function snapshotKey(query: MoodQuery) {
+  return [query.topic, query.region, query.timeWindow, query.sourceFocus]
+    .map((part) => (part ?? "").trim().toLowerCase().replace(/\s+/g, " "))
+    .join("|");
+}
+
+export async function listSnapshots(query: MoodQuery) {
+  const file = await readJsonFile<SnapshotFile>(SNAPSHOT_FILE, {});
+  return file[snapshotKey(query)] ?? [];
+}
+
+export async function getSnapshot(id: string) {
+  const file = await readJsonFile<SnapshotFile>(SNAPSHOT_FILE, {});
+  for (const snapshots of Object.values(file)) {
+    const match = snapshots.find((snapshot) => snapshot.id === id);
+    if (match) return match;
+  }
+  return null;
+}
+
+// skip = 1 returns the snapshot before the latest one.
+export async function getLatestSnapshot(query: MoodQuery, skip = 0) {
+  const snapshots = await listSnapshots(query);
+  return snapshots[snapshots.length - 1 - skip] ?? null;
+}
+
+export async function saveSnapshot(
+  snapshot: Omit<MoodSnapshot, "id" | "createdAt">
+) {
+  const record: MoodSnapshot = {
+    ...snapshot,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+  };
+  const key = snapshotKey(snapshot.query);
+  await updateJsonFile<SnapshotFile>(SNAPSHOT_FILE, {}, (file) => ({
+    ...file,
+    [key]: [...(file[key] ?? []), record].slice(-MAX_SNAPSHOTS_PER_QUERY),
+  }));
+  return record;
+}
@@ -0,0 +1,67 @@
+import type { DomainShare, SourcePolicy } from "@/lib/contracts";
+import { parseDate } from "@/lib/dates";
+import type { Snippet, SourceMetrics } from "@/lib/models";
+import { classifySource, DEFAULT_SOURCE_POLICY } from "@/lib/source-policy";
+
+// Percentage of sources from one domain at which the UI warns about concentration.
+export const CONCENTRATION_THRESHOLD = 70;
+
+function round(value: number, digits = 1) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function dateSpread(sources: Snippet[]): SourceMetrics["dateSpread"] {
+  const timestamps = sources
+    .map((source) => parseDate(source.publishedAt))
+    .filter((timestamp): timestamp is number => timestamp !== null)
+    .sort((a, b) => a - b);
+  if (!timestamps.length) {
+    return { dated: 0, undated: sources.length, earliest: null, latest: null, spanHours: null };
+  }
+  const earliest = timestamps[0];
+  const latest = timestamps[timestamps.length - 1];
+  return {
+    dated: timestamps.length,
+    undated: sources.length - timestamps.length,
+    earliest: new Date(earliest).toISOString(),
+    latest: new Date(latest).toISOString(),
+    spanHours: round((latest - earliest) / 3_600_000),
+  };
+}
+
+export function computeSourceMetrics(
+  sources: Snippet[],
+  policy: SourcePolicy = DEFAULT_SOURCE_POLICY
+): SourceMetrics {
+  const byDomain = new Map<string, DomainShare>();
+  const tiers = { high: 0, medium: 0, low: 0 };
+  sources.forEach((source) => {
+    const { domain, category, tier } = classifySource(source.url, policy);
+    const key = domain || "unknown";
+    const entry = byDomain.get(key) ?? { domain: key, count: 0, share: 0, category, tier };
+    entry.count += 1;
+    byDomain.set(key, entry);
+    tiers[tier] += 1;
+  });
+
+  const total = sources.length;
+  const domains = Array.from(byDomain.values())
+    .map((entry) => ({ ...entry, share: total ? round((entry.count / total) * 100) : 0 }))
+    .sort((a, b) => b.count - a.count || a.domain.localeCompare(b.domain));
+  const simpson = total
+    ? 1 - domains.reduce((sum, entry) => sum + (entry.count / total) ** 2, 0)
+    : 0;
+  const topDomainShare = domains[0]?.share ?? 0;
+
+  return {
+    total,
+    uniqueDomains: domains.length,
+    domains,
+    diversityIndex: round(simpson, 3),
+    topDomainShare,
+    concentrated: total > 0 && topDomainShare >= CONCENTRATION_THRESHOLD,
+    tiers,
+    dateSpread: dateSpread(sources),
+  };
+}
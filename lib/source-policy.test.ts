@@ -0,0 +1,43 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { sourcePolicySchema } from "@/lib/contracts";
+import { DEFAULT_SOURCE_POLICY, getSourcePolicy, saveSourcePolicy } from "@/lib/source-policy";
+
+describe("source policy storage", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "source-policy-test-"));
+    process.env.DATA_DIR = dir;
+  });
+
+  afterEach(async () => {
+    delete process.env.DATA_DIR;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps a separate policy per workspace", async () => {
+    const newsroom = sourcePolicySchema.parse({ allow: ["reuters.com"], allowOnly: true });
+    const research = sourcePolicySchema.parse({ block: ["example.com"], minTier: "high" });
+    await saveSourcePolicy(newsroom, "newsroom");
+    await saveSourcePolicy(research, "research");
+
+    expect(await getSourcePolicy("newsroom")).toEqual(newsroom);
+    expect(await getSourcePolicy("research")).toEqual(research);
+    expect(await getSourcePolicy()).toEqual(DEFAULT_SOURCE_POLICY);
+    expect((await fs.readdir(dir)).sort()).toEqual([
+      "source-policy-newsroom.json",
+      "source-policy-research.json",
+    ]);
+  });
+
+  it("reads the pre-workspace policy file for the default workspace only", async () => {
+    const legacy = sourcePolicySchema.parse({ block: ["legacy.example"] });
+    await fs.writeFile(path.join(dir, "source-policy.json"), JSON.stringify(legacy));
+
+    expect(await getSourcePolicy()).toEqual(legacy);
+    expect(await getSourcePolicy("newsroom")).toEqual(DEFAULT_SOURCE_POLICY);
+  });
+});
@@ -0,0 +1,171 @@
+import {
+  CREDIBILITY_TIERS,
+  DEFAULT_WORKSPACE,
+  sourcePolicySchema,
+  type CredibilityTier,
+  type FilteredSource,
+  type SourceCategory,
+  type SourcePolicy,
+  type SourcePolicyInput,
+  type SourcePolicyReport,
+} from "@/lib/contracts";
+import type { Snippet } from "@/lib/models";
+import { domainOf } from "@/lib/sources";
+import { readJsonFile, writeJsonFile } from "@/lib/store";
+
+// Single policy file used before policies were kept per workspace.
+const LEGACY_POLICY_FILE = "source-policy";
+
+function policyFile(workspace: string) {
+  return `source-policy-${workspace}`;
+}
+
+export const DEFAULT_SOURCE_POLICY: SourcePolicy = sourcePolicySchema.parse({});
+
+type SourceProfile = { category: SourceCategory; tier: CredibilityTier };
+
+// Built-in profiles for well-known outlets; workspace rules in
+// policy.domains take precedence.
+const KNOWN_DOMAINS: Record<string, SourceProfile> = {
+  "apnews.com": { category: "news", tier: "high" },
+  "reuters.com": { category: "news", tier: "high" },
+  "bbc.com": { category: "news", tier: "high" },
+  "bbc.co.uk": { category: "news", tier: "high" },
+  "nytimes.com": { category: "news", tier: "high" },
+  "theguardian.com": { category: "news", tier: "high" },
+  "washingtonpost.com": { category: "news", tier: "high" },
+  "ft.com": { category: "news", tier: "high" },
+  "economist.com": { category: "news", tier: "high" },
+  "bloomberg.com": { category: "news", tier: "high" },
+  "thehindu.com": { category: "news", tier: "high" },
+  "medium.com": { category: "blog", tier: "low" },
+  "substack.com": { category: "blog", tier: "low" },
+  "wordpress.com": { category: "blog", tier: "low" },
+  "blogspot.com": { category: "blog", tier: "low" },
+  "tumblr.com": { category: "blog", tier: "low" },
+  "reddit.com": { category: "forum", tier: "low" },
+  "quora.com": { category: "forum", tier: "low" },
+  "stackexchange.com": { category: "forum", tier: "low" },
+  "news.ycombinator.com": { category: "forum", tier: "low" },
+  "x.com": { category: "social", tier: "low" },
+  "twitter.com": { category: "social", tier: "low" },
+  "facebook.com": { category: "social", tier: "low" },
+  "instagram.com": { category: "social", tier: "low" },
+  "tiktok.com": { category: "social", tier: "low" },
+  "threads.net": { category: "social", tier: "low" },
+  "linkedin.com": { category: "social", tier: "low" },
+  "youtube.com": { category: "social", tier: "low" },
+  "europa.eu": { category: "government", tier: "high" },
+  "un.org": { category: "government", tier: "high" },
+};
+
+const DEFAULT_TIERS: Record<SourceCategory, CredibilityTier> = {
+  government: "high",
+  news: "medium",
+  blog: "low",
+  forum: "low",
+  social: "low",
+  other: "medium",
+};
+
+const GOVERNMENT_PATTERN = /(^|\.)(gov|mil)(\.[a-z]{2})?$|(^|\.)(gouv|gob|govt)\.[a-z]{2}$|\.gc\.ca$/;
+
+function matchesDomain(domain: string, rule: string) {
+  return domain === rule || domain.endsWith(`.${rule}`);
+}
+
+// Most specific rule wins, so "news.example.com" can override "example.com".
+function findByDomain<T>(domain: string, entries: [string, T][]) {
+  return entries
+    .filter(([rule]) => matchesDomain(domain, rule))
+    .sort((a, b) => b[0].length - a[0].length)[0]?.[1];
+}
+
+function guessCategory(domain: string, url: string): SourceCategory {
+  if (GOVERNMENT_PATTERN.test(domain)) return "government";
+  const path = url.toLowerCase().replace(/^[a-z]+:\/\/[^/]+/, "");
+  const [subdomain] = domain.split(".");
+  if (["blog", "blogs"].includes(subdomain) || /^\/blogs?\//.test(path)) return "blog";
+  if (
+    ["forum", "forums", "community", "discuss"].includes(subdomain) ||
+    /^\/(t|forums?|threads?)\//.test(path)
+  ) {
+    return "forum";
+  }
+  if (["news", "press"].includes(subdomain) || /^\/news\//.test(path)) return "news";
+  return "other";
+}
+
+export function classifySource(url: string, policy: SourcePolicy = DEFAULT_SOURCE_POLICY) {
+  const domain = domainOf(url);
+  const override = findByDomain(
+    domain,
+    policy.domains.map((rule) => [rule.domain, rule] as [string, typeof rule])
+  );
+  const known = findByDomain(domain, Object.entries(KNOWN_DOMAINS));
+  const category = override?.category ?? known?.category ?? guessCategory(domain, url);
+  const tier = override?.tier ?? known?.tier ?? DEFAULT_TIERS[category];
+  return { domain, category, tier };
+}
+
+function tierRank(tier: CredibilityTier) {
+  return CREDIBILITY_TIERS.length - CREDIBILITY_TIERS.indexOf(tier);
+}
+
+export function applySourcePolicy<T extends Snippet>(items: T[], policy: SourcePolicy) {
+  const kept: T[] = [];
+  const filtered: FilteredSource[] = [];
+  items.forEach((item) => {
+    const { domain, category, tier } = classifySource(item.url, policy);
+    const reject = (rule: FilteredSource["rule"], reason: string) =>
+      filtered.push({ url: item.url, title: item.title, domain, category, tier, rule, reason });
+
+    if (!domain) return reject("invalid_url", "URL has no readable domain.");
+    const blockedBy = policy.block.find((rule) => matchesDomain(domain, rule));
+    if (blockedBy) return reject("blocked", `Domain ${blockedBy} is blocklisted.`);
+    if (policy.allow.some((rule) => matchesDomain(domain, rule))) {
+      kept.push(item);
+      return;
+    }
+    if (policy.allowOnly) return reject("not_allowed", `${domain} is not on the allowlist.`);
+    if (policy.blockCategories.includes(category)) {
+      return reject("category", `${category} sources are excluded.`);
+    }
+    if (tierRank(tier) < tierRank(policy.minTier)) {
+      return reject("tier", `Credibility tier ${tier} is below ${policy.minTier}.`);
+    }
+    kept.push(item);
+  });
+  const report: SourcePolicyReport = { policy, kept: kept.length, filtered };
+  return { kept, report };
+}
+
+// Retrieval prompt hint; the policy is still enforced on whatever comes back.
+export function describeSourcePolicy(policy: SourcePolicy) {
+  const lines: string[] = [];
+  if (policy.allowOnly && policy.allow.length) {
+    lines.push(`Only use sources from ${policy.allow.join(", ")}.`);
+  } else if (policy.allow.length) {
+    lines.push(`Prefer sources from ${policy.allow.join(", ")}.`);
+  }
+  if (policy.block.length) lines.push(`Exclude sources from ${policy.block.join(", ")}.`);
+  if (policy.blockCategories.length) {
+    lines.push(`Exclude ${policy.blockCategories.join(", ")} sources.`);
+  }
+  return lines.join(" ");
+}
+
+export async function getSourcePolicy(workspace = DEFAULT_WORKSPACE) {
+  let stored = await readJsonFile<SourcePolicyInput | null>(policyFile(workspace), null);
+  if (!stored && workspace === DEFAULT_WORKSPACE) {
+    stored = await readJsonFile<SourcePolicyInput | null>(LEGACY_POLICY_FILE, null);
+  }
+  if (!stored) return DEFAULT_SOURCE_POLICY;
+  const parsed = sourcePolicySchema.safeParse(stored);
+  return parsed.success ? parsed.data : DEFAULT_SOURCE_POLICY;
+}
+
+export async function saveSourcePolicy(policy: SourcePolicy, workspace = DEFAULT_WORKSPACE) {
+  await writeJsonFile(policyFile(workspace), policy);
+  return policy;
+}
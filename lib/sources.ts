@@ -0,0 +1,13 @@
+import type { Snippet, SourceSignal } from "@/lib/models";
+
+export function domainOf(url: string) {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+export function toSourceSignal(snippet: Snippet): SourceSignal {
+  return { ...snippet, domain: domainOf(snippet.url) };
+}
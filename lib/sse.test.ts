@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { readSseEvents } from "@/lib/sse";
+
+function sseStream(lines: string[], onCancel: () => void) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const line = lines.shift();
+      if (line === undefined) controller.close();
+      else controller.enqueue(encoder.encode(`${line}\n`));
+    },
+    cancel: onCancel,
+  });
+}
+
+describe("readSseEvents", () => {
+  it("yields every event and leaves a fully read stream alone", async () => {
+    let cancelled = false;
+    const body = sseStream(['data: {"type":"A"}', 'data: {"type":"B"}'], () => {
+      cancelled = true;
+    });
+    const events = [];
+    for await (const event of readSseEvents(body)) events.push(event.type);
+    expect(events).toEqual(["A", "B"]);
+    expect(cancelled).toBe(false);
+  });
+
+  it("cancels the upstream stream when the consumer stops early", async () => {
+    let cancelled = false;
+    const body = sseStream(['data: {"type":"A"}', 'data: {"type":"B"}'], () => {
+      cancelled = true;
+    });
+    for await (const event of readSseEvents(body)) {
+      if (event.type === "A") break;
+    }
+    expect(cancelled).toBe(true);
+    expect(body.locked).toBe(false);
+  });
+});
@@ -0,0 +1,60 @@
+export type SseEvent = {
+  type?: string;
+  [key: string]: unknown;
+};
+
+export function parseSseData(line: string): SseEvent | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("data:")) return null;
+  const payload = trimmed.replace(/^data:\s*/, "");
+  try {
+    return JSON.parse(payload) as SseEvent;
+  } catch {
+    return null;
+  }
+}
+
+export function parseSseEvents(text: string) {
+  return text
+    .split("\n")
+    .map(parseSseData)
+    .filter((event): event is SseEvent => Boolean(event));
+}
+
+export async function* readSseEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let finished = false;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        const event = parseSseData(line);
+        if (event) yield event;
+      }
+    }
+    const tail = parseSseData(buffer + decoder.decode());
+    if (tail) yield tail;
+  } finally {
+    // A consumer that stops early (break, return or throw) would otherwise
+    // leave the upstream request open.
+    if (!finished) await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
+
+export function describeSseEvent(event: SseEvent) {
+  const detail = [event.purpose, event.message, event.status].find(
+    (value): value is string => typeof value === "string" && value.trim().length > 0
+  );
+  const type = event.type ?? "EVENT";
+  return detail ? `${type}: ${detail}` : type;
+}
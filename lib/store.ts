@@ -0,0 +1,48 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+function dataDir() {
+  return process.env.DATA_DIR ?? path.join(process.cwd(), ".data");
+}
+
+function filePath(name: string) {
+  return path.join(dataDir(), `${name}.json`);
+}
+
+export async function readJsonFile<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(filePath(name), "utf8");
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === "ENOENT") return fallback;
+    throw error;
+  }
+}
+
+export async function writeJsonFile<T>(name: string, value: T) {
+  const target = filePath(name);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const temp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(value, null, 2), "utf8");
+  await fs.rename(temp, target);
+}
+
+export function updateJsonFile<T>(
+  name: string,
+  fallback: T,
+  updater: (current: T) => T | Promise<T>
+): Promise<T> {
+  const previous = pendingWrites.get(name) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const current = await readJsonFile(name, fallback);
+      const updated = await updater(current);
+      await writeJsonFile(name, updated);
+      return updated;
+    });
+  pendingWrites.set(name, next);
+  return next;
+}
@@ -0,0 +1,35 @@
+import { parseDate } from "@/lib/dates";
+import type { Snippet, TimelinePoint } from "@/lib/models";
+import type { MoodSnapshot } from "@/lib/snapshots";
+import { moodTrendPoint } from "@/lib/trends";
+import { computeVolatility, VOLATILITY_SPIKE } from "@/lib/volatility";
+
+function publishedRange(snippets: Snippet[]) {
+  const times = snippets
+    .map((snippet) => parseDate(snippet.publishedAt))
+    .filter((time): time is number => time !== null);
+  if (!times.length) return null;
+  return {
+    earliest: new Date(Math.min(...times)).toISOString(),
+    latest: new Date(Math.max(...times)).toISOString(),
+  };
+}
+
+export function buildTimeline(snapshots: MoodSnapshot[]): TimelinePoint[] {
+  return snapshots.map((snapshot, index) => {
+    const previous = snapshots[index - 1];
+    const volatility = previous ? computeVolatility(previous, snapshot) : null;
+    const { emotions, clusters } = moodTrendPoint(snapshot, undefined, new Date(snapshot.createdAt));
+    return {
+      snapshotId: snapshot.id,
+      at: snapshot.createdAt,
+      emotions,
+      clusters,
+      snippetCount: snapshot.snippets.length,
+      volatility: volatility?.score ?? null,
+      spike: (volatility?.score ?? 0) >= VOLATILITY_SPIKE,
+      appearedClusters: volatility?.appearedClusters ?? [],
+      published: publishedRange(snapshot.snippets),
+    };
+  });
+}
@@ -0,0 +1,59 @@
+import type { StageData } from "@/lib/contracts";
+import { readJsonFile, updateJsonFile } from "@/lib/store";
+import type { MoodResult, TrendPoint } from "@/lib/models";
+
+type TrendFile = Record<string, TrendPoint[]>;
+
+const TRENDS_FILE = "trends";
+const MAX_POINTS_PER_WATCHLIST = 500;
+const TOP_OPPORTUNITIES = 5;
+
+export function moodTrendPoint(
+  result: Pick<MoodResult, "emotions" | "clusters">,
+  runId?: string,
+  at = new Date()
+): TrendPoint {
+  return {
+    at: at.toISOString(),
+    runId,
+    emotions: Object.fromEntries(
+      result.emotions.map((entry) => [entry.emotion, entry.percentage])
+    ),
+    clusters: Object.fromEntries(
+      result.clusters.map((cluster) => [cluster.label, cluster.size])
+    ),
+    topOpportunities: [],
+  };
+}
+
+export function analyzeTrendPoint(
+  outputs: Partial<StageData>,
+  runId?: string,
+  at = new Date()
+): TrendPoint {
+  const topOpportunities = [...(outputs.D?.scored ?? [])]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, TOP_OPPORTUNITIES)
+    .map(({ title, score, recommended }) => ({ title, score, recommended }));
+  return { at: at.toISOString(), runId, emotions: {}, clusters: {}, topOpportunities };
+}
+
+export async function listTrendPoints(watchlistId: string) {
+  const file = await readJsonFile<TrendFile>(TRENDS_FILE, {});
+  return file[watchlistId] ?? [];
+}
+
+export async function appendTrendPoint(watchlistId: string, point: TrendPoint) {
+  await updateJsonFile<TrendFile>(TRENDS_FILE, {}, (file) => ({
+    ...file,
+    [watchlistId]: [...(file[watchlistId] ?? []), point].slice(-MAX_POINTS_PER_WATCHLIST),
+  }));
+  return point;
+}
+
+export async function deleteTrendPoints(watchlistId: string) {
+  await updateJsonFile<TrendFile>(TRENDS_FILE, {}, (file) => {
+    const { [watchlistId]: _removed, ...rest } = file;
+    return rest;
+  });
+}
@@ -0,0 +1,98 @@
+import { clusterKey } from "@/lib/clusters";
+import type {
+  EmotionDelta,
+  EmotionStats,
+  NarrativeCluster,
+  VolatilityReport,
+} from "@/lib/models";
+
+const EMOTION_WEIGHT = 0.6;
+const CLUSTER_WEIGHT = 0.4;
+
+export const VOLATILITY_SPIKE = 40;
+
+function toDistribution(stats: EmotionStats[]) {
+  const total = stats.reduce((sum, stat) => sum + stat.count, 0);
+  const distribution = new Map<string, number>();
+  stats.forEach((stat) => {
+    distribution.set(stat.emotion, total ? stat.count / total : 0);
+  });
+  return distribution;
+}
+
+function klDivergence(p: number[], q: number[]) {
+  return p.reduce((sum, value, index) => {
+    if (!value || !q[index]) return sum;
+    return sum + value * Math.log2(value / q[index]);
+  }, 0);
+}
+
+// Base-2 Jensen-Shannon divergence, bounded to [0, 1].
+export function jensenShannonDivergence(previous: EmotionStats[], current: EmotionStats[]) {
+  const prev = toDistribution(previous);
+  const next = toDistribution(current);
+  const emotions = Array.from(new Set([...prev.keys(), ...next.keys()]));
+  if (!emotions.length) return 0;
+  const p = emotions.map((emotion) => prev.get(emotion) ?? 0);
+  const q = emotions.map((emotion) => next.get(emotion) ?? 0);
+  const m = p.map((value, index) => (value + q[index]) / 2);
+  const divergence = (klDivergence(p, m) + klDivergence(q, m)) / 2;
+  return Math.min(1, Math.max(0, divergence));
+}
+
+// Registry IDs survive relabelling between runs; unregistered clusters fall back to labels.
+export function clusterIdentity(cluster: NarrativeCluster) {
+  return cluster.id ?? clusterKey(cluster.label);
+}
+
+export function compareClusters(previous: NarrativeCluster[], current: NarrativeCluster[]) {
+  const prevKeys = new Map(previous.map((cluster) => [clusterIdentity(cluster), cluster.label]));
+  const nextKeys = new Map(current.map((cluster) => [clusterIdentity(cluster), cluster.label]));
+  const appearedKeys = Array.from(nextKeys.keys()).filter((key) => !prevKeys.has(key));
+  const appeared = appearedKeys.map((key) => nextKeys.get(key) as string);
+  const disappeared = Array.from(prevKeys.entries())
+    .filter(([key]) => !nextKeys.has(key))
+    .map(([, label]) => label);
+  const union = new Set([...prevKeys.keys(), ...nextKeys.keys()]).size;
+  const churn = union ? (appeared.length + disappeared.length) / union : 0;
+  return { appeared, appearedKeys, disappeared, churn };
+}
+
+function emotionDeltas(previous: EmotionStats[], current: EmotionStats[]) {
+  const prev = new Map(previous.map((stat) => [stat.emotion, stat.percentage]));
+  const next = new Map(current.map((stat) => [stat.emotion, stat.percentage]));
+  const emotions = Array.from(new Set([...prev.keys(), ...next.keys()]));
+  return emotions
+    .map<EmotionDelta>((emotion) => {
+      const before = prev.get(emotion) ?? 0;
+      const after = next.get(emotion) ?? 0;
+      return {
+        emotion,
+        previous: before,
+        current: after,
+        delta: Math.round((after - before) * 10) / 10,
+      };
+    })
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+}
+
+export function computeVolatility(
+  previous: { createdAt: string; emotions: EmotionStats[]; clusters: NarrativeCluster[] },
+  current: { emotions: EmotionStats[]; clusters: NarrativeCluster[] }
+): VolatilityReport {
+  const emotionShift = jensenShannonDivergence(previous.emotions, current.emotions);
+  const clusters = compareClusters(previous.clusters, current.clusters);
+  const score = Math.round(
+    100 * (EMOTION_WEIGHT * emotionShift + CLUSTER_WEIGHT * clusters.churn)
+  );
+  return {
+    score,
+    emotionShift: Math.round(emotionShift * 1000) / 1000,
+    clusterChurn: Math.round(clusters.churn * 1000) / 1000,
+    emotionDeltas: emotionDeltas(previous.emotions, current.emotions),
+    appearedClusters: clusters.appeared,
+    appearedClusterIds: clusters.appearedKeys,
+    disappearedClusters: clusters.disappeared,
+    previousRunAt: previous.createdAt,
+  };
+}
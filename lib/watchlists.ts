@@ -0,0 +1,102 @@
+import type { WatchlistInput, WatchlistUpdate } from "@/lib/contracts";
+import { nextRunAfter } from "@/lib/cron";
+import { readJsonFile, updateJsonFile } from "@/lib/store";
+import type { Watchlist } from "@/lib/models";
+
+const WATCHLISTS_FILE = "watchlists";
+
+function defaultName(input: WatchlistInput) {
+  return input.kind === "analyze"
+    ? `${input.query.niche} · ${input.query.platform}`
+    : `${input.query.topic} · ${input.query.region}`;
+}
+
+function scheduleNext(schedule: string, enabled: boolean, after = new Date()) {
+  return enabled ? nextRunAfter(schedule, after).toISOString() : null;
+}
+
+export async function listWatchlists() {
+  const watchlists = await readJsonFile<Watchlist[]>(WATCHLISTS_FILE, []);
+  return watchlists.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function getWatchlist(id: string) {
+  const watchlists = await readJsonFile<Watchlist[]>(WATCHLISTS_FILE, []);
+  return watchlists.find((watchlist) => watchlist.id === id) ?? null;
+}
+
+// Throws CronError when the schedule cannot be parsed.
+export async function createWatchlist(input: WatchlistInput) {
+  const now = new Date().toISOString();
+  const watchlist = {
+    ...input,
+    id: crypto.randomUUID(),
+    name: input.name || defaultName(input),
+    createdAt: now,
+    updatedAt: now,
+    nextRunAt: scheduleNext(input.schedule, input.enabled),
+  } as Watchlist;
+  await updateJsonFile<Watchlist[]>(WATCHLISTS_FILE, [], (watchlists) => [
+    ...watchlists,
+    watchlist,
+  ]);
+  return watchlist;
+}
+
+export async function updateWatchlist(id: string, update: WatchlistUpdate) {
+  const current = await getWatchlist(id);
+  if (!current) return null;
+  const schedule = update.schedule ?? current.schedule;
+  const enabled = update.enabled ?? current.enabled;
+  const nextRunAt =
+    update.schedule !== undefined || update.enabled !== undefined
+      ? scheduleNext(schedule, enabled)
+      : current.nextRunAt;
+
+  let updated: Watchlist | null = null;
+  await updateJsonFile<Watchlist[]>(WATCHLISTS_FILE, [], (watchlists) =>
+    watchlists.map((watchlist) => {
+      if (watchlist.id !== id) return watchlist;
+      updated = {
+        ...watchlist,
+        ...update,
+        nextRunAt,
+        updatedAt: new Date().toISOString(),
+      };
+      return updated;
+    })
+  );
+  return updated as Watchlist | null;
+}
+
+export async function recordWatchlistRun(
+  id: string,
+  result: { runId?: string; error?: string },
+  finishedAt = new Date()
+) {
+  let updated: Watchlist | null = null;
+  await updateJsonFile<Watchlist[]>(WATCHLISTS_FILE, [], (watchlists) =>
+    watchlists.map((watchlist) => {
+      if (watchlist.id !== id) return watchlist;
+      updated = {
+        ...watchlist,
+        lastRunAt: finishedAt.toISOString(),
+        lastRunId: result.runId ?? watchlist.lastRunId,
+        lastError: result.error,
+        nextRunAt: scheduleNext(watchlist.schedule, watchlist.enabled, finishedAt),
+      };
+      return updated;
+    })
+  );
+  return updated as Watchlist | null;
+}
+
+export async function deleteWatchlist(id: string) {
+  let removed = false;
+  await updateJsonFile<Watchlist[]>(WATCHLISTS_FILE, [], (watchlists) => {
+    const remaining = watchlists.filter((watchlist) => watchlist.id !== id);
+    removed = remaining.length !== watchlists.length;
+    return remaining;
+  });
+  return removed;
+}
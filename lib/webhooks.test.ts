@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { signPayload, verifySignature } from "@/lib/webhooks";
+
+const secret = "whsec_test";
+const body = JSON.stringify({ id: "evt_1", matches: [] });
+const timestamp = 1_790_000_000;
+const now = timestamp * 1000;
+
+describe("webhook signatures", () => {
+  it("verifies a payload it signed", () => {
+    const header = signPayload(body, secret, timestamp);
+    expect(header).toMatch(/^t=1790000000,v1=[0-9a-f]{64}$/);
+    expect(verifySignature(body, header, secret, { now })).toBe(true);
+  });
+
+  it("rejects a tampered body, signature, timestamp or secret", () => {
+    const header = signPayload(body, secret, timestamp);
+    const signature = header.split("v1=")[1];
+    const flipped = `${signature[0] === "a" ? "b" : "a"}${signature.slice(1)}`;
+
+    expect(verifySignature(body.replace("evt_1", "evt_2"), header, secret, { now })).toBe(false);
+    expect(verifySignature(body, `t=${timestamp},v1=${flipped}`, secret, { now })).toBe(false);
+    expect(verifySignature(body, `t=${timestamp + 1},v1=${signature}`, secret, { now })).toBe(
+      false
+    );
+    expect(verifySignature(body, header, "other-secret", { now })).toBe(false);
+  });
+
+  it("rejects missing, malformed and expired headers", () => {
+    const header = signPayload(body, secret, timestamp);
+    expect(verifySignature(body, null, secret, { now })).toBe(false);
+    expect(verifySignature(body, "v1=abc", secret, { now })).toBe(false);
+    expect(verifySignature(body, `t=${timestamp},v1=abc`, secret, { now })).toBe(false);
+    expect(verifySignature(body, header, secret, { now: now + 301_000 })).toBe(false);
+    expect(
+      verifySignature(body, header, secret, { now: now + 301_000, toleranceSeconds: 600 })
+    ).toBe(true);
+  });
+});
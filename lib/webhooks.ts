@@ -0,0 +1,66 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export const SIGNATURE_HEADER = "x-mood-radar-signature";
+
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+export type WebhookResult = {
+  ok: boolean;
+  status?: number;
+  error?: string;
+};
+
+function hmac(secret: string, timestamp: number, body: string) {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// Header format: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">.
+export function signPayload(body: string, secret: string, timestamp = Math.floor(Date.now() / 1000)) {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+}
+
+export function verifySignature(
+  body: string,
+  header: string | null,
+  secret: string,
+  { toleranceSeconds = DEFAULT_TOLERANCE_SECONDS, now = Date.now() } = {}
+) {
+  if (!header) return false;
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => {
+      const [key, ...rest] = part.trim().split("=");
+      return [key, rest.join("=")];
+    })
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v1) return false;
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+  const expected = Buffer.from(hmac(secret, timestamp, body), "hex");
+  const received = Buffer.from(parts.v1, "hex");
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+export async function deliverWebhook(
+  url: string,
+  payload: unknown,
+  secret?: string
+): Promise<WebhookResult> {
+  const body = JSON.stringify(payload);
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(secret ? { [SIGNATURE_HEADER]: signPayload(body, secret) } : {}),
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    return response.ok
+      ? { ok: true, status: response.status }
+      : { ok: false, status: response.status, error: await response.text() };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : "Delivery failed" };
+  }
+}
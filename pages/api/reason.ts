@@ -1,74 +1,15 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import { z } from "zod";
-import type { ClassifiedSnippet, NarrativeCluster, Snippet } from "@/lib/models";
+import { describeIssues, workspaceSchema } from "@/lib/contracts";
+import { enforceSnippetBudget, reasonMoodSnippets } from "@/lib/mood-pipeline";
+import { getReasoningProvider, ReasoningError, type ReasoningProvider } from "@/lib/reasoning";
+import type { MoodQuery, Snippet } from "@/lib/models";
 
-type ReasonPayload = {
-  topic: string;
-  region: string;
-  timeWindow: string;
-  sourceFocus: string;
+type ReasonPayload = MoodQuery & {
   snippets: Snippet[];
+  refresh?: boolean;
+  workspace?: string;
 };
 
-const classifiedSnippetSchema = z.object({
-  index: z.number().int().nonnegative(),
-  emotion: z.string().min(1),
-  concern: z.string().min(1),
-  narrative: z.string().min(1),
-  cluster: z.string().min(1),
-});
-
-const narrativeClusterSchema = z.object({
-  label: z.string().min(1),
-  size: z.number().int().nonnegative(),
-  exampleHeadlines: z.array(z.string()).default([]),
-});
-
-const minoResponseSchema = z.object({
-  items: z.array(classifiedSnippetSchema),
-  clusters: z.array(narrativeClusterSchema).optional(),
-});
-
-const MAX_SNIPPET_CHARS = 800;
-const MAX_TITLE_CHARS = 160;
-const MAX_TOTAL_CHARS = 12000;
-
-function extractJsonObject(text: string) {
-  const start = text.indexOf("{");
-  const end = text.lastIndexOf("}");
-  if (start === -1 || end === -1) {
-    return null;
-  }
-  const slice = text.slice(start, end + 1);
-  try {
-    return JSON.parse(slice);
-  } catch {
-    return null;
-  }
-}
-
-function truncate(value: string, limit: number) {
-  if (value.length <= limit) return value;
-  return value.slice(0, limit).trim();
-}
-
-function enforceSnippetBudget(snippets: Snippet[]) {
-  const trimmed: Snippet[] = [];
-  let totalChars = 0;
-  snippets.forEach((snippet) => {
-    const next = {
-      ...snippet,
-      title: truncate(snippet.title, MAX_TITLE_CHARS),
-      snippet: truncate(snippet.snippet, MAX_SNIPPET_CHARS),
-    };
-    const size = next.title.length + next.snippet.length;
-    if (totalChars + size > MAX_TOTAL_CHARS) return;
-    totalChars += size;
-    trimmed.push(next);
-  });
-  return trimmed;
-}
-
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -77,8 +18,16 @@ export default async function handler(
     return res.status(405).json({ error: "Method not allowed" });
   }
 
-  const { snippets, topic, region, timeWindow, sourceFocus } =
+  const { snippets, topic, region, timeWindow, sourceFocus, refresh, ...rest } =
     req.body as ReasonPayload;
+  const workspace = workspaceSchema.optional().safeParse(rest.workspace);
+  if (!workspace.success) {
+    return res.status(400).json({
+      error: "Invalid workspace.",
+      errorType: "validation",
+      details: describeIssues(workspace.error),
+    });
+  }
 
   if (!snippets?.length) {
     return res
@@ -86,17 +35,6 @@ export default async function handler(
       .json({ error: "Missing snippets for reasoning.", errorType: "validation" });
   }
 
-  const apiKey = process.env.MINO_API_KEY;
-  const apiUrl = process.env.MINO_API_URL;
-  const model = process.env.MINO_MODEL ?? "mino-latest";
-  const agentUrl = process.env.MINO_AGENT_URL ?? "https://example.com";
-
-  if (!apiKey || !apiUrl) {
-    return res.status(500).json({
-      error: "Missing MINO_API_KEY or MINO_API_URL",
-    });
-  }
-
   const constrainedSnippets = enforceSnippetBudget(snippets);
   if (!constrainedSnippets.length) {
     return res
@@ -104,134 +42,32 @@ export default async function handler(
       .json({ error: "Snippet budget exceeded.", errorType: "validation" });
   }
 
-  const prompt = `You are a strict JSON classifier for public sentiment analysis.
-Analyze the snippets and return ONLY JSON in this schema:
-{
-  "items": [
-    {
-      "index": number,
-      "emotion": "string",
-      "concern": "string",
-      "narrative": "string",
-      "cluster": "string"
-    }
-  ],
-  "clusters": [
-    {
-      "label": "string",
-      "size": number,
-      "exampleHeadlines": ["string"]
-    }
-  ]
-}
-Snippets:
-${JSON.stringify({
-  topic,
-  region,
-  timeWindow,
-  sourceFocus,
-  snippets: constrainedSnippets,
-})}
-No markdown, no extra keys.`;
-
+  let provider: ReasoningProvider;
   try {
-    const isAutomationEndpoint =
-      apiUrl.includes("/automation/run") || apiUrl.includes("/automation/run-sse");
-
-    const response = await fetch(apiUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        ...(isAutomationEndpoint
-          ? { "X-API-Key": apiKey }
-          : { Authorization: `Bearer ${apiKey}` }),
-      },
-      body: JSON.stringify(
-        isAutomationEndpoint
-          ? {
-              url: agentUrl,
-              goal: prompt,
-            }
-          : {
-              model,
-              prompt,
-            }
-      ),
-    });
-
-    if (!response.ok) {
-      const text = await response.text();
-      return res
-        .status(response.status)
-        .json({ error: "Mino API error", errorType: "mino", details: text });
-    }
-
-    const rawText = await response.text();
-    let parsed;
-
-    if (isAutomationEndpoint) {
-      try {
-        const automationJson = JSON.parse(rawText) as {
-          status?: string;
-          result?: unknown;
-          resultJson?: unknown;
-          error?: { message?: string };
-        };
-        parsed = automationJson.resultJson ?? automationJson.result;
-        if (!parsed && automationJson.status && automationJson.status !== "COMPLETED") {
-          return res.status(502).json({
-            error: "Mino automation did not complete.",
-            errorType: "mino",
-            details: automationJson,
-          });
-        }
-      } catch {
-        const events = rawText
-          .split("\n")
-          .map((line) => line.trim())
-          .filter((line) => line.startsWith("data:"))
-          .map((line) => line.replace(/^data:\s*/, ""));
-        const lastComplete = events
-          .map((payload) => {
-            try {
-              return JSON.parse(payload);
-            } catch {
-              return null;
-            }
-          })
-          .filter(Boolean)
-          .reverse()
-          .find((event: { type?: string }) => event?.type === "COMPLETE");
-        parsed = lastComplete?.resultJson ?? null;
-      }
-    } else {
-      try {
-        parsed = JSON.parse(rawText);
-      } catch {
-        parsed = extractJsonObject(rawText);
-      }
-    }
-
-    if (!parsed) {
-      return res
-        .status(500)
-        .json({ error: "Unable to parse Mino response.", errorType: "malformed" });
-    }
+    provider = getReasoningProvider();
+  } catch (err: unknown) {
+    if (!(err instanceof ReasoningError)) throw err;
+    return res
+      .status(err.status)
+      .json({ error: err.message, errorType: err.kind, details: err.details });
+  }
 
-    const validation = minoResponseSchema.safeParse(parsed);
-    if (!validation.success) {
-      return res.status(500).json({
-        error: "Malformed Mino response.",
-        errorType: "malformed",
-        details: validation.error.flatten(),
+  try {
+    const { mood, cached } = await reasonMoodSnippets(
+      { topic, region, timeWindow, sourceFocus },
+      constrainedSnippets,
+      { refresh, workspace: workspace.data },
+      provider
+    );
+    return res.status(200).json({ ...mood, cached });
+  } catch (err: unknown) {
+    if (err instanceof ReasoningError) {
+      return res.status(err.status).json({
+        error: err.message,
+        errorType: err.kind === "upstream" ? provider.name : err.kind,
+        details: err.details,
       });
     }
-
-    return res.status(200).json(validation.data as {
-      items: ClassifiedSnippet[];
-      clusters?: NarrativeCluster[];
-    });
-  } catch (err: unknown) {
     const message = err instanceof Error ? err.message : "Unknown error";
     return res
       .status(500)